@@ -1,7 +1,7 @@
 import typescript from '@rollup/plugin-typescript';
 import dts from 'rollup-plugin-dts';
 
-const external = ['fs', 'path', 'util'];
+const external = ['fs', 'path', 'util', 'stream', 'url'];
 
 export default [
   {
@@ -32,6 +32,42 @@ export default [
       })
     ]
   },
+  {
+    input: 'src/cli/bin.ts',
+    output: {
+      file: 'dist/cli.js',
+      format: 'cjs',
+      banner: '#!/usr/bin/env node',
+      sourcemap: true
+    },
+    external,
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json',
+        exclude: ['**/*.test.ts', '**/*.spec.ts'],
+        declaration: false,
+        declarationMap: false
+      })
+    ]
+  },
+  {
+    input: 'src/lsp/bin.ts',
+    output: {
+      file: 'dist/lsp.js',
+      format: 'cjs',
+      banner: '#!/usr/bin/env node',
+      sourcemap: true
+    },
+    external,
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json',
+        exclude: ['**/*.test.ts', '**/*.spec.ts'],
+        declaration: false,
+        declarationMap: false
+      })
+    ]
+  },
   {
     input: 'dist/index.d.ts',
     output: {
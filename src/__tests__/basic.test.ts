@@ -250,4 +250,79 @@ describe('Basic functionality', () => {
     expect(freeformError?.blockType).toBe('data');
     expect(freeformError?.fieldName).toBe('manufaturer');
   });
-});
\ No newline at end of file
+
+  it('should return native values alongside the original text when typedValues is set', () => {
+    const markdown = `
+!? datadef orders
+!fname: id, type: number
+!fname: paid, type: boolean
+!fname: placed, type: date
+!fname: slot, type: time
+!fname: note, type: text
+!#
+
+!? data orders
+| !id | !paid | !placed | !slot | !note |
+|-----|-------|---------|-------|-------|
+| 7 | yes | 2024-03-15 | 2:30 PM | Rush |
+| x | | | | |
+!#
+`;
+
+    const result = parser.parse(markdown, { typedValues: true });
+    const [first, second] = result.data.get('orders') ?? [];
+
+    expect(first?.fields.get('id')).toBe(7);
+    expect(first?.fields.get('paid')).toBe(true);
+    expect(first?.fields.get('placed')).toEqual(new Date(2024, 2, 15));
+    expect((first?.fields.get('slot') as Date).getHours()).toBe(14);
+    expect(first?.fields.get('note')).toBe('Rush');
+    expect(first?.rawFields?.get('placed')).toBe('2024-03-15');
+    expect(result.errors.some(error => error.fieldName === 'slot')).toBe(false);
+
+    // Mismatched values stay as their original text
+    expect(second?.fields.get('id')).toBe('x');
+    expect(second?.fields.get('paid')).toBeNull();
+  });
+
+  it('should convert exactly the times it accepts as valid', () => {
+    const markdown = `
+!? datadef slots
+!fname: at, type: time
+!#
+
+!? data slots
+| !at |
+|-----|
+| 2:30 pm |
+| 12:05 AM |
+| 23:59 |
+| 13:00 PM |
+| 0:15 AM |
+!#
+`;
+
+    const result = parser.parse(markdown, { typedValues: true });
+    const values = result.data.get('slots')?.map(entry => entry.fields.get('at'));
+
+    expect(values?.slice(0, 3).map(value => (value as Date).getHours())).toEqual([14, 0, 23]);
+    expect(values?.slice(3)).toEqual(['13:00 PM', '0:15 AM']);
+    expect(result.errors.map(error => error.value)).toEqual(['13:00 PM', '0:15 AM']);
+  });
+
+  it('should keep raw strings by default', () => {
+    const markdown = `
+!? datadef orders
+!fname: id, type: number
+!#
+
+!? data orders
+!id 7
+!#
+`;
+
+    const entry = parser.parse(markdown).data.get('orders')?.[0];
+    expect(entry?.fields.get('id')).toBe('7');
+    expect(entry?.rawFields).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../cli/index';
+import { globToRegExp } from '../glob';
+
+describe('mdl-data CLI', () => {
+  let dir: string;
+  let stdout: string[];
+  let stderr: string[];
+  const output = {
+    stdout: (text: string) => stdout.push(text),
+    stderr: (text: string) => stderr.push(text)
+  };
+  const run = (...args: string[]) => runCli(args, output, dir);
+
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    dir = mkdtempSync(join(tmpdir(), 'mdl-cli-'));
+    mkdirSync(join(dir, 'docs', 'team'), { recursive: true });
+    writeFileSync(join(dir, 'docs', 'team', 'stock.md'), `# Stock
+
+!? datadef stock
+!fname: item, type: text, required: true
+!fname: qty, type: number
+!#
+
+!? data stock
+| !item    | !qty |
+|----------|------|
+| Bolt     | 10   |
+| Nut, hex | 3    |
+!#
+`);
+    writeFileSync(join(dir, 'docs', 'broken.md'), `!? datadef parts
+!fname: code, type: number
+!#
+
+!? data parts
+!code abc
+!#
+`);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should print errors as file:line:col and exit non-zero', async () => {
+    const code = await run('validate', 'docs/**/*.md');
+
+    expect(code).toBe(1);
+    expect(stdout).toEqual([
+      "docs/broken.md:6:7: error type_mismatch: Type mismatch for field 'code': expected number, got 'abc'"
+    ]);
+    expect(stderr).toEqual(['1 error, 0 warnings in 2 files']);
+  });
+
+  it('should exit zero when files are valid', async () => {
+    expect(await run('validate', 'docs/team')).toBe(0);
+  });
+
+  it('should apply suggested fixes with --fix and report what is left', async () => {
+    writeFileSync(join(dir, 'docs', 'team', 'stock.md'), readFileSync(join(dir, 'docs', 'team', 'stock.md'), 'utf8')
+      .replace('| !qty |', '| !qyt |'));
+
+    expect(await run('validate', 'docs/team')).toBe(1);
+    expect(stderr).toEqual(['1 error, 0 warnings in 1 file - 1 fixable with --fix']);
+
+    stderr = [];
+    expect(await run('validate', 'docs/team', '--fix')).toBe(0);
+    expect(stderr).toEqual(['Fixed 1 problem in docs/team/stock.md', '0 errors, 0 warnings in 1 file']);
+    expect(readFileSync(join(dir, 'docs', 'team', 'stock.md'), 'utf8')).toContain('| !item    | !qty |');
+  });
+
+  it('should extract records as JSON grouped by schema', async () => {
+    await run('extract', 'docs/team/*.md');
+
+    expect(JSON.parse(stdout.join('\n'))).toEqual({
+      stock: [{ item: 'Bolt', qty: '10' }, { item: 'Nut, hex', qty: '3' }]
+    });
+  });
+
+  it('should extract CSV per schema', async () => {
+    expect(await run('extract', 'docs', '--format', 'csv')).toBe(2);
+
+    const code = await run('extract', 'docs', '--format', 'csv', '--out', 'out');
+    expect(code).toBe(1);
+    expect(readFileSync(join(dir, 'out', 'stock.csv'), 'utf8')).toBe('item,qty\r\nBolt,10\r\n"Nut, hex",3\r\n');
+  });
+
+  it('should list schema definitions', async () => {
+    await run('schemas', 'docs/team/stock.md');
+
+    expect(stdout).toEqual([
+      'docs/team/stock.md:3: stock (2 fields)',
+      '  item: text, required',
+      '  qty: number'
+    ]);
+  });
+
+  it('should print TypeScript types for the schemas', async () => {
+    const code = await run('types', 'docs/team/stock.md');
+
+    expect(code).toBe(0);
+    expect(stdout[0]).toContain('export interface Stock {\n  item: string;\n  qty?: number;\n}');
+  });
+
+  it('should report usage problems with exit code 2', async () => {
+    expect(await run('validate')).toBe(2);
+    expect(await run('lint', 'docs')).toBe(2);
+    expect(await run('validate', 'missing/**/*.md')).toBe(2);
+  });
+
+  it('should match globs against posix paths', () => {
+    expect(globToRegExp('docs/**/*.md').test('docs/a.md')).toBe(true);
+    expect(globToRegExp('docs/**/*.md').test('docs/x/y/a.md')).toBe(true);
+    expect(globToRegExp('*.{md,markdown}').test('a.markdown')).toBe(true);
+    expect(globToRegExp('*.md').test('x/a.md')).toBe(false);
+  });
+});
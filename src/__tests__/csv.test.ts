@@ -0,0 +1,104 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { CsvConverter } from '../csv';
+import { MarkdownDataSerializer } from '../serializer';
+import { DataSchema, ErrorType } from '../types';
+
+describe('CsvConverter', () => {
+  let parser: MarkdownDataExtensionParser;
+  let converter: CsvConverter;
+  const serializer = new MarkdownDataSerializer();
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+    converter = new CsvConverter();
+  });
+
+  const source = `
+!? datadef products
+!fname: id, type: number, label: "Product ID", required: true
+!fname: name, type: text, label: "Name"
+!fname: price, type: number, label: "Price", format: "$n,n.##"
+!fname: launched, type: date, label: "Launched", format: {"YYYY-MM-DD", "DD/MM/YYYY"}
+!#
+
+!? data products
+| !id | !name | !price | !launched |
+|-----|-------|--------|-----------|
+| 1 | Hammer, large | 1250 | 2024-12-25 |
+| 2 | Bolt "M6" |  | 2024-02-01 |
+!#
+`;
+
+  const getSchema = (): DataSchema => {
+    const schema = parser.parse(source).schemas.get('products');
+    if (!schema) throw new Error('products schema missing');
+    return schema;
+  };
+
+  it('exports labels and display formats as RFC 4180 CSV', () => {
+    const result = parser.parse(source);
+    const block = result.blockData.blocks[0];
+    if (!block) throw new Error('data block missing');
+
+    const csv = converter.exportCsv(block, getSchema());
+
+    expect(csv).toBe([
+      'Product ID,Name,Price,Launched',
+      '1,"Hammer, large","$1,250.00",25/12/2024',
+      '2,"Bolt ""M6""",,01/02/2024',
+      ''
+    ].join('\r\n'));
+  });
+
+  it('exports field names and source text as TSV', () => {
+    const entries = parser.parse(source).data.get('products') || [];
+
+    const tsv = converter.exportCsv(entries, getSchema(), { delimiter: '\t', headers: 'name', formatted: false });
+
+    expect(tsv.split('\r\n')[0]).toBe('id\tname\tprice\tlaunched');
+    expect(tsv.split('\r\n')[1]).toBe('1\tHammer, large\t1250\t2024-12-25');
+  });
+
+  it('imports CSV into a data block that parses back to the same records', () => {
+    const schema = getSchema();
+    const csv = 'Product ID,name,Price,Launched\r\n7,"Saw, ""fine""","$1,099.50",03/04/2024\r\n8,Nail,,\r\n';
+
+    const imported = converter.importCsv(csv, schema);
+
+    expect(imported.errors).toEqual([]);
+    const reparsed = new MarkdownDataExtensionParser().parse(`${serializer.serializeSchema(schema)}\n\n${imported.markdown}`);
+    expect(reparsed.errors).toEqual([]);
+
+    const records = reparsed.data.get('products') || [];
+    expect(records.map(record => Object.fromEntries(record.fields))).toEqual([
+      { id: '7', name: 'Saw, "fine"', price: '1099.5', launched: '2024-04-03' },
+      { id: '8', name: 'Nail', price: null, launched: null }
+    ]);
+  });
+
+  it('reports unknown columns and invalid rows with CSV line numbers', () => {
+    const csv = 'id,name,colour\n1,Hammer,red\n"two\nlines",Bolt,blue\n';
+
+    const imported = converter.importCsv(csv, getSchema());
+
+    expect(imported.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: ErrorType.INVALID_FIELD_NAME, lineNumber: 1, columnNumber: 3 }),
+      expect.objectContaining({ type: ErrorType.TYPE_MISMATCH, lineNumber: 3, recordNumber: 2 }),
+      expect.objectContaining({ type: ErrorType.INVALID_TABLE_SYNTAX, lineNumber: 3 })
+    ]));
+    expect(imported.markdown).toContain('| two lines | Bolt');
+  });
+
+  it('reads tab-delimited input', () => {
+    const imported = converter.importCsv('id\tname\n5\tWrench\n', getSchema(), { delimiter: '\t' });
+
+    expect(imported.errors).toEqual([]);
+    expect(imported.markdown).toContain('| 5   | Wrench |');
+  });
+
+  it('rejects delimiters that are not a single character', () => {
+    expect(() => converter.importCsv('id;;name\n5;;Wrench\n', getSchema(), { delimiter: ';;' }))
+      .toThrow("CSV delimiter must be a single character, got ';;'");
+    expect(() => converter.exportCsv([], getSchema(), { delimiter: '' })).toThrow('single character');
+  });
+});
@@ -0,0 +1,120 @@
+import { MarkdownDataEditor, applyTextEdits } from '../editor';
+import { MarkdownDataExtensionParser } from '../parser';
+import { DataType } from '../types';
+
+const document = `# Inventory
+
+Intro prose that must survive.
+
+!? datadef stock
+!fname: item, type: text
+!fname: quantity, type: number
+!index: "item"
+!#
+
+<!-- aligned table -->
+!? data stock
+| !item  | !quantity |
+|--------|-----------|
+| Bolt   | 10        |
+| Washer | 250       |
+!#
+
+Between blocks.
+
+!? data stock
+!item Nut
+!quantity 5
+!-
+!item Screw
+!quantity 7
+!#
+
+Trailing prose.
+`;
+
+describe('MarkdownDataEditor', () => {
+  let editor: MarkdownDataEditor;
+  const parse = (text: string) => new MarkdownDataExtensionParser().parse(text);
+  const values = (text: string, block: number) =>
+    parse(text).blockData.blocks
+      .find(b => b.blockNumber === block)?.records
+      .map(r => Object.fromEntries(r.fields));
+
+  beforeEach(() => {
+    editor = new MarkdownDataEditor(document);
+  });
+
+  it('should change a single table cell and keep alignment', () => {
+    const edits = editor.updateRecord(2, 0, { quantity: 12 });
+
+    expect(edits).toHaveLength(1);
+    expect(applyTextEdits(document, edits)).toBe(editor.getText());
+    expect(editor.getText()).toBe(document.replace('| Bolt   | 10        |', '| Bolt   | 12        |'));
+  });
+
+  it('should edit freeform values in place', () => {
+    editor.updateRecord(3, 1, { quantity: 8, item: 'Hex: M4' });
+
+    expect(editor.getText()).toContain('!item: Hex: M4\n!quantity 8\n!#');
+    expect(values(editor.getText(), 3)?.[1]).toEqual({ item: 'Hex: M4', quantity: '8' });
+    expect(editor.getText().replace('!item: Hex: M4\n!quantity 8', '!item Screw\n!quantity 7')).toBe(document);
+  });
+
+  it('should leave the text untouched when nothing changes', () => {
+    expect(editor.updateRecord(3, 0, { item: 'Nut' })).toEqual([]);
+    expect(editor.getText()).toBe(document);
+  });
+
+  it('should insert records into tables and freeform blocks', () => {
+    editor.insertRecord(2, { item: 'Rivet', quantity: 3 }, 1);
+    editor.insertRecord(3, { item: 'Pin' });
+
+    expect(editor.getText()).toContain('| Bolt   | 10        |\n| Rivet  | 3         |\n| Washer |');
+    expect(values(editor.getText(), 2)?.map(r => r['item'])).toEqual(['Bolt', 'Rivet', 'Washer']);
+    expect(values(editor.getText(), 3)?.map(r => r['item'])).toEqual(['Nut', 'Screw', 'Pin']);
+  });
+
+  it('should delete records with their separator', () => {
+    editor.deleteRecord(2, 1);
+    editor.deleteRecord(3, 0);
+
+    expect(values(editor.getText(), 2)).toEqual([{ item: 'Bolt', quantity: '10' }]);
+    expect(editor.getText()).toContain('!? data stock\n!item Screw\n!quantity 7\n!#');
+    expect(editor.getText()).toContain('<!-- aligned table -->');
+  });
+
+  it('should add a field to the schema and every table block', () => {
+    editor.addField('stock', { name: 'bin', type: DataType.TEXT, label: 'Bin' }, 'A1');
+    const result = parse(editor.getText());
+
+    expect(result.errors).toHaveLength(0);
+    expect(editor.getText()).toContain('!fname: quantity, type: number\n!fname: bin, type: text, label: "Bin"\n!index');
+    expect(editor.getText()).toContain('| !item  | !quantity | !bin |');
+    expect(values(editor.getText(), 2)?.[1]).toEqual({ item: 'Washer', quantity: '250', bin: 'A1' });
+    expect(values(editor.getText(), 3)?.[0]).toEqual({ item: 'Nut', quantity: '5', bin: 'A1' });
+  });
+
+  it('should keep the line endings of a CRLF document', () => {
+    const edit = (text: string) => {
+      const crlfEditor = new MarkdownDataEditor(text);
+      crlfEditor.insertRecord(2, { item: 'Rivet', quantity: 3 });
+      crlfEditor.insertRecord(3, { item: 'Pin' }, 0);
+      crlfEditor.addField('stock', { name: 'bin', type: DataType.TEXT });
+      crlfEditor.updateRecord(3, 1, { bin: 'B2' });
+      return crlfEditor.getText();
+    };
+
+    const crlf = edit(document.replace(/\n/g, '\r\n'));
+    expect(crlf).not.toMatch(/(?<!\r)\n/);
+    expect(crlf).toBe(edit(document).replace(/\n/g, '\r\n'));
+    expect(crlf).toContain('!fname: bin, type: text\r\n!index');
+  });
+
+  it('should reject values a table cannot hold and unknown fields', () => {
+    expect(() => editor.updateRecord(2, 0, { item: 'a|b' })).toThrow("contains '|' or '!'");
+    expect(() => editor.updateRecord(2, 0, { colour: 'red' })).toThrow("Field 'colour' does not exist");
+    expect(() => editor.updateRecord(1, 0, { item: 'x' })).toThrow('Block 1 is not a data block');
+    expect(editor.getText()).toBe(document);
+  });
+});
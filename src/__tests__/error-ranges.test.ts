@@ -0,0 +1,85 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { ErrorType, ParseError, ParseEvent, ParseWarning } from '../types';
+
+describe('Error ranges', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  const source = `!? datadef items
+!fname: id, type: number, required: true
+!fname: name, type: txt
+!#
+
+!? data items
+| !id | !name | !size |
+|-----|-------|-------|
+| one | Ann   | x     |
+!#
+
+!? data items
+!id 7
+!name Bob
+!-
+!id seven
+!-
+!name Cat
+!#
+`;
+
+  const span = (problem: ParseError | ParseWarning | undefined) => problem && [
+    problem.lineNumber, problem.columnNumber, problem.endLineNumber, problem.endColumnNumber
+  ];
+
+  it('should span the bad value of table cells and free-form fields', () => {
+    const result = parser.parse(source);
+    const mismatches = result.errors.filter(e => e.type === ErrorType.TYPE_MISMATCH);
+
+    expect(mismatches.map(span)).toEqual([[9, 3, 9, 6], [16, 5, 16, 10]]);
+  });
+
+  it('should span table headers and schema attributes', () => {
+    const result = parser.parse(source);
+
+    expect(span(result.errors.find(e => e.type === ErrorType.INVALID_FIELD_NAME))).toEqual([7, 17, 7, 22]);
+    expect(span(result.warnings.find(w => w.fieldName === 'name'))).toEqual([3, 21, 3, 24]);
+
+    const unknownKey = parser.parse(source.replace('required: true', 'colour: red')).errors
+      .find(e => e.type === ErrorType.MALFORMED_FIELD_ATTRIBUTE);
+    expect(span(unknownKey)).toEqual([2, 27, 2, 33]);
+  });
+
+  it('should span block declarations', () => {
+    const result = parser.parse('!? data\n!#\n');
+
+    expect(span(result.errors.find(e => e.type === ErrorType.INVALID_BLOCK_SYNTAX))).toEqual([1, 1, 1, 8]);
+  });
+
+  it('should fall back to the text of the line for errors without a column', () => {
+    const result = parser.parse(source);
+    const missing = result.errors.find(e => e.type === ErrorType.MISSING_REQUIRED_FIELD);
+
+    // Reported at the record's separator line
+    expect(span(missing)).toEqual([17, 1, 17, 3]);
+  });
+
+  it('should move spans with their lines on reparse', () => {
+    const result = parser.parse(source);
+    const updated = parser.reparse(result, { offset: 0, deletedLength: 0, insertedText: '# Items\n\n' });
+
+    expect(updated.errors.filter(e => e.type === ErrorType.TYPE_MISMATCH).map(span))
+      .toEqual([[11, 3, 11, 6], [18, 5, 18, 10]]);
+  });
+
+  it('should span errors yielded while streaming', async () => {
+    const errors: ParseError[] = [];
+    const events: AsyncIterable<ParseEvent> = parser.parseStream((async function* () { yield source; })());
+    for await (const event of events) {
+      if (event.type === 'error') errors.push(event.error);
+    }
+
+    expect(errors.map(span)).toEqual(parser.parse(source).errors.map(span));
+  });
+});
@@ -0,0 +1,246 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MarkdownDataExtensionParser } from '../parser';
+import { InMemorySchemaResolver } from '../resolvers/memory';
+import { DataType, ErrorType } from '../types';
+
+describe('External schema references', () => {
+  let parser: MarkdownDataExtensionParser;
+  let dir: string;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+    dir = mkdtempSync(join(tmpdir(), 'mdl-ext-'));
+    writeFileSync(join(dir, 'schemas.md'), `
+# Shared schemas
+
+!? datadef employees
+!fname: id, type: number
+!fname: name, type: text
+!#
+`);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const dataMarkdown = `
+!? data [employees](./schemas.md)
+| !id | !name |
+|-----|-------|
+| 1 | Alice |
+| 2 | Bob |
+!#
+`;
+
+  it('should load external schemas relative to basePath', async () => {
+    const result = await parser.parseAsync(dataMarkdown, { basePath: dir });
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.data.get('employees')).toHaveLength(2);
+  });
+
+  it('should load external schemas relative to the parsed file', async () => {
+    writeFileSync(join(dir, 'data.md'), dataMarkdown);
+
+    const result = await parser.parseFile(join(dir, 'data.md'));
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.data.get('employees')?.[0]?.fields.get('name')).toBe('Alice');
+  });
+
+  it('should cache loaded external schemas by resolved path', async () => {
+    const schemaCache = parser['schemaCache'];
+    await parser.parseAsync(dataMarkdown, { basePath: dir, schemaCache });
+
+    expect(schemaCache.get(`${join(dir, 'schemas.md')}#employees`)?.fields).toHaveLength(2);
+  });
+
+  it('should report EXTERNAL_REFERENCE_FAILED with the resolved path for a missing file', async () => {
+    const result = await parser.parseAsync(dataMarkdown.replace('schemas.md', 'missing.md'), { basePath: dir });
+
+    const error = result.errors.find(e => e.type === ErrorType.EXTERNAL_REFERENCE_FAILED);
+    expect(error).toBeDefined();
+    expect(error?.sourceFile).toBe(join(dir, 'missing.md'));
+    expect(error?.lineNumber).toBe(2);
+    expect(result.errors.some(e => e.type === ErrorType.SCHEMA_NOT_FOUND)).toBe(false);
+  });
+
+  it('should report EXTERNAL_REFERENCE_FAILED when the file lacks the schema', async () => {
+    const result = await parser.parseAsync(dataMarkdown.replace('[employees]', '[contractors]'), { basePath: dir });
+
+    const error = result.errors.find(e => e.type === ErrorType.EXTERNAL_REFERENCE_FAILED);
+    expect(error?.message).toContain(join(dir, 'schemas.md'));
+    expect(error?.schemaName).toBe('contractors');
+  });
+
+  it('should warn instead of loading during synchronous parsing', () => {
+    const result = parser.parse(dataMarkdown, { basePath: dir });
+
+    expect(result.warnings.some(w => w.message.includes('parseAsync'))).toBe(true);
+    expect(result.errors.some(e => e.type === ErrorType.INVALID_SCHEMA_NAME)).toBe(false);
+  });
+});
+
+describe('Schema resolvers', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  it('should resolve external schemas from an in-memory map', async () => {
+    const schemaResolver = new InMemorySchemaResolver({
+      'schemas/employees.md': `
+!? datadef employees
+!fname: id, type: number
+!fname: name, type: text
+!#
+`
+    });
+
+    const result = await parser.parseAsync(`
+!? data [employees](../schemas/employees.md)
+!id 1
+!name Alice
+!#
+`, { schemaResolver, sourceFile: 'docs/team.md' });
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.data.get('employees')?.[0]?.fields.get('name')).toBe('Alice');
+  });
+
+  it('should accept ready-made schemas from a resolver', async () => {
+    const schemaResolver = new InMemorySchemaResolver();
+    schemaResolver.set('./departments.md', {
+      name: 'departments',
+      fields: [{ name: 'code', type: DataType.TEXT }],
+      indexes: []
+    });
+
+    const result = await parser.parseAsync(`
+!? data [departments](departments.md)
+!code ENG
+!#
+`, { schemaResolver });
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.data.get('departments')).toHaveLength(1);
+  });
+
+  it('should read the parsed file through the resolver', async () => {
+    const schemaResolver = new InMemorySchemaResolver({
+      'docs/team.md': `
+!? data [employees](employees.md)
+!name Alice
+!#
+`,
+      'docs/employees.md': `
+!? datadef employees
+!fname: name
+!#
+`
+    });
+
+    const result = await parser.parseFile('docs/team.md', { schemaResolver });
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.data.get('employees')).toHaveLength(1);
+  });
+
+  it('should report unregistered in-memory paths as EXTERNAL_REFERENCE_FAILED', async () => {
+    const result = await parser.parseAsync(`
+!? data [employees](missing.md)
+!name Alice
+!#
+`, { schemaResolver: new InMemorySchemaResolver() });
+
+    const error = result.errors.find(e => e.type === ErrorType.EXTERNAL_REFERENCE_FAILED);
+    expect(error?.sourceFile).toBe('missing.md');
+  });
+});
+
+describe('Transitive external references', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  it('should follow references through intermediate schema files', async () => {
+    const schemaResolver = new InMemorySchemaResolver({
+      'shared.md': `
+!? data [employees](base/employees.md)
+!name Seed
+!#
+`,
+      'base/employees.md': `
+!? datadef employees
+!fname: name
+!#
+`
+    });
+
+    const result = await parser.parseAsync(`
+!? data [employees](shared.md)
+!name Alice
+!#
+`, { schemaResolver });
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.data.get('employees')).toHaveLength(1);
+  });
+
+  it('should report the full cycle with line numbers', async () => {
+    const schemaResolver = new InMemorySchemaResolver({
+      'a.md': `
+!? datadef employees
+!fname: name
+!#
+
+!? data [departments](b.md)
+!code ENG
+!#
+`,
+      'b.md': `!? data [employees](a.md)
+!name Bob
+!#
+`
+    });
+
+    const result = await parser.parseAsync(`
+!? data [employees](a.md)
+!name Alice
+!#
+`, { schemaResolver, sourceFile: 'main.md' });
+
+    const cycleErrors = result.errors.filter(e => e.type === ErrorType.CIRCULAR_REFERENCE);
+    expect(cycleErrors).toHaveLength(1);
+    expect(cycleErrors[0]?.message).toContain('a.md:6 → b.md:1 → a.md');
+    expect(cycleErrors[0]?.referenceChain).toEqual([
+      { path: 'a.md', lineNumber: 6 },
+      { path: 'b.md', lineNumber: 1 },
+      { path: 'a.md' }
+    ]);
+    expect(result.data.get('employees')).toHaveLength(1);
+  });
+
+  it('should stop following references beyond maxReferenceDepth', async () => {
+    const schemaResolver = new InMemorySchemaResolver({
+      'one.md': '!? data [employees](two.md)\n!name A\n!#\n',
+      'two.md': '!? datadef employees\n!fname: name\n!#\n'
+    });
+
+    const result = await parser.parseAsync(`
+!? data [employees](one.md)
+!name Alice
+!#
+`, { schemaResolver, maxReferenceDepth: 1 });
+
+    const depthError = result.errors.find(e => e.message.includes('Maximum external reference depth'));
+    expect(depthError?.type).toBe(ErrorType.EXTERNAL_REFERENCE_FAILED);
+    expect(depthError?.sourceFile).toBe('one.md');
+  });
+});
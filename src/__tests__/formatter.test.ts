@@ -0,0 +1,68 @@
+import { MarkdownDataFormatter } from '../formatter';
+import { DataType, FieldDefinition } from '../types';
+
+describe('Number formatting', () => {
+  const field = (format: string): FieldDefinition => ({ name: 'amount', type: DataType.NUMBER, format });
+
+  it('should keep US defaults for existing patterns', () => {
+    const formatter = new MarkdownDataFormatter();
+
+    expect(formatter.formatValue(1234.5, field('$n,n.##')).formatted).toBe('$1,234.50');
+    expect(formatter.formatValue(0.125, field('n.#%')).formatted).toBe('12.5%');
+    expect(formatter.formatValue(1234.567, field('####.##')).formatted).toBe('1234.57');
+  });
+
+  it('should use the configured locale and currency', () => {
+    const formatter = new MarkdownDataFormatter({ locale: 'de-DE', currency: 'EUR' });
+    const formatted = formatter.formatValue(1234.56, field('$')).formatted;
+
+    expect(formatted).toMatch(/^1\.234,56\s€$/);
+    expect(formatter.parseValue(formatted, field('$'))).toBe(1234.56);
+    expect(formatter.parseValue('1.234,56', field('n'))).toBe(1234.56);
+  });
+
+  it('should write pattern grouping and decimals with the locale separators', () => {
+    const formatter = new MarkdownDataFormatter({ locale: 'de-DE', currency: 'EUR' });
+
+    expect(formatter.formatValue(1234.56, field('n,n.##')).formatted).toBe('1.234,56');
+    expect(formatter.formatValue(1234.5, field('$n,n.##')).formatted).toMatch(/^1\.234,50\s€$/);
+    expect(formatter.formatValue(1234.5, field('n.#%')).formatted).toMatch(/^123\.450,0\s%$/);
+    expect(formatter.formatValue(1234.56, field('€n.n,##')).formatted).toMatch(/^1\.234,56\s€$/);
+    expect(formatter.parseValue('1.234,56', field('n,n.##'))).toBe(1234.56);
+  });
+
+  it('should keep the text around a pattern', () => {
+    const formatter = new MarkdownDataFormatter();
+
+    expect(formatter.formatValue(1234.5, field('n.## kg')).formatted).toBe('1234.50 kg');
+    expect(formatter.parseValue('1234.50 kg', field('n.## kg'))).toBe(1234.5);
+    expect(formatter.formatValue(1234.5, field('approx. n,n.##')).formatted).toBe('approx. 1,234.50');
+    expect(formatter.parseValue('approx. 1,234.50', field('approx. n,n.##'))).toBe(1234.5);
+  });
+
+  it('should lay out patterns with their own separators when asked to', () => {
+    const formatter = new MarkdownDataFormatter({ literalSeparators: true });
+
+    expect(formatter.formatValue(1234.56, field('€n.n,##')).formatted).toBe('€1.234,56');
+    expect(formatter.formatValue(-1234.5, field('n n,## £')).formatted).toBe('-1 234,50 £');
+    expect(formatter.parseValue('€1.234,56', field('€n.n,##'))).toBe(1234.56);
+    expect(formatter.parseValue('-1 234,50 £', field('n n,## £'))).toBe(-1234.5);
+    expect(formatter.formatValue(1234.5, field('n.## kg')).formatted).toBe('1234.50 kg');
+    expect(formatter.parseValue('1234.50 kg', field('n.## kg'))).toBe(1234.5);
+  });
+
+  it('should pin the currency named by the pattern symbol', () => {
+    const formatter = new MarkdownDataFormatter({ locale: 'en-GB' });
+
+    expect(formatter.formatValue(99, field('£n,n.##')).formatted).toBe('£99.00');
+    expect(formatter.formatValue(99, field('$n,n.##')).formatted).toBe('US$99.00');
+  });
+
+  it('should round-trip percentages', () => {
+    const formatter = new MarkdownDataFormatter({ locale: 'de-DE' });
+
+    for (const value of [0.125, 1.5, -0.042]) {
+      expect(formatter.parseValue(formatter.formatValue(value, field('n,#%')).formatted, field('n,#%'))).toBe(value);
+    }
+  });
+});
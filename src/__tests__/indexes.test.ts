@@ -0,0 +1,93 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { ErrorType } from '../types';
+
+describe('Unique indexes', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  const source = `
+!? datadef products
+!fname: id, type: number, required: true
+!fname: category, type: text
+!fname: name, type: text
+!fname: launched, type: date, format: "DD/MM/YYYY"
+!index: "id"
+!index: "category+name"
+!#
+
+!? data products
+| !id | !category | !name  | !launched  |
+|-----|-----------|--------|------------|
+| 1   | tools     | Hammer | 25/12/2024 |
+| 2   | parts     | Bolt   | 01/02/2024 |
+| 3   |           | Bolt   |            |
+!#
+
+Prose between the blocks.
+
+!? data products
+!id 1.0
+!category tools
+!name Saw
+!-
+!id 4
+!category parts
+!name Bolt
+!#
+`;
+
+  it('should report duplicate keys across data blocks with both line numbers', () => {
+    const duplicates = parser.parse(source).errors.filter(e => e.type === ErrorType.DUPLICATE_KEY);
+
+    expect(duplicates).toEqual([
+      expect.objectContaining({
+        schemaName: 'products',
+        fieldName: 'id',
+        lineNumber: 21,
+        relatedLineNumber: 14,
+        blockNumber: 3,
+        recordNumber: 1,
+        message: "Duplicate key '1.0' for index 'id' in schema 'products' - line 21 repeats line 14"
+      }),
+      expect.objectContaining({
+        lineNumber: 25,
+        relatedLineNumber: 15,
+        message: "Duplicate key 'parts, Bolt' for index 'category+name' in schema 'products' - line 25 repeats line 15"
+      })
+    ]);
+  });
+
+  it('should look records up by single and composite keys', () => {
+    const indexes = parser.parse(source).indexes.get('products');
+    const byId = indexes?.get('id');
+    const byName = indexes?.get('category+name');
+
+    expect(byId?.size).toBe(4);
+    expect(byId?.get(4)?.fields.get('name')).toBe('Bolt');
+    expect(byId?.get('2')?.fields.get('name')).toBe('Bolt');
+    expect(byId?.get(1)?.fields.get('name')).toBe('Hammer');
+    expect(byId?.has(5)).toBe(false);
+
+    // Records with an empty key field are left out of the index
+    expect(byName?.size).toBe(3);
+    expect(byName?.get('tools', 'Saw')?.lineNumber).toBe(21);
+    expect(byName?.get('tools')).toBeUndefined();
+  });
+
+  it('should match typed values against raw keys', () => {
+    const result = parser.parse(source.replace('!index: "category+name"', '!index: "launched"'), { typedValues: true });
+
+    expect(result.indexes.get('products')?.get('launched')?.get(new Date(2024, 1, 1))?.fields.get('id')).toBe(2);
+    expect(result.indexes.get('products')?.get('launched')?.get('25/12/2024')?.fields.get('id')).toBe(1);
+  });
+
+  it('should build indexes without reporting duplicates when validation is off', () => {
+    const result = parser.parse(source, { validateData: false });
+
+    expect(result.errors.filter(e => e.type === ErrorType.DUPLICATE_KEY)).toEqual([]);
+    expect(result.indexes.get('products')?.get('id')?.size).toBe(4);
+  });
+});
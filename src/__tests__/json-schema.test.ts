@@ -0,0 +1,109 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { JsonSchemaConverter } from '../json-schema';
+import { DataSchema, DataType, JsonSchema } from '../types';
+
+describe('JsonSchemaConverter', () => {
+  let parser: MarkdownDataExtensionParser;
+  let converter: JsonSchemaConverter;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+    converter = new JsonSchemaConverter();
+  });
+
+  const source = `
+!? datadef products
+!fname: id, type: number, label: "Product ID", required: true, valid: {min: 1}
+!fname: name, type: text, required: true, valid: {min: 2, maxLength: 40, pattern: "^[A-Z]"}
+!fname: price, type: number, format: "$n,n.##", valid: {min: 0, max: 1000}
+!fname: launched, type: date, format: {"DD/MM/YYYY", "YYYY-MM-DD"}, valid: {min: "2020-01-01"}
+!fname: opens, type: time
+!fname: category, type: text, valid: {oneOf: ["tools", "parts"]}
+!fname: active, type: boolean
+!index: "id"
+!index: "category+name"
+!#
+`;
+
+  const getSchema = (): DataSchema => {
+    const schema = parser.parse(source).schemas.get('products');
+    if (!schema) throw new Error('products schema missing');
+    return schema;
+  };
+
+  it('converts a schema to JSON Schema draft 2020-12', () => {
+    const json = converter.toJsonSchema(getSchema(), { id: 'https://example.com/products.json' });
+
+    expect(json).toMatchObject({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: 'https://example.com/products.json',
+      title: 'products',
+      type: 'object',
+      required: ['id', 'name'],
+      additionalProperties: false,
+      'x-mdl-indexes': [['id'], ['category', 'name']]
+    });
+    expect(json.properties).toEqual({
+      id: { type: 'number', title: 'Product ID', minimum: 1 },
+      name: { type: 'string', minLength: 2, maxLength: 40, pattern: '^[A-Z]' },
+      price: { type: ['number', 'null'], minimum: 0, maximum: 1000, 'x-mdl-format': '$n,n.##' },
+      launched: {
+        type: ['string', 'null'],
+        format: 'date',
+        'x-mdl-validation': { min: '2020-01-01' },
+        'x-mdl-format': { input: 'DD/MM/YYYY', display: 'YYYY-MM-DD' }
+      },
+      opens: { type: ['string', 'null'], 'x-mdl-type': 'time', pattern: expect.any(String) },
+      category: { type: ['string', 'null'], enum: ['tools', 'parts', null] },
+      active: { type: ['boolean', 'null'] }
+    });
+  });
+
+  it('round-trips a schema through JSON Schema', () => {
+    const schema = getSchema();
+    const { schema: imported, markdown } = converter.fromJsonSchema(converter.toJsonSchema(schema));
+
+    // Text min/max are length bounds, so they come back as minLength/maxLength
+    const name = imported.fields.find(field => field.name === 'name');
+    expect(name?.validation).toEqual({ minLength: 2, maxLength: 40, pattern: '^[A-Z]' });
+
+    const reparsed = new MarkdownDataExtensionParser().parse(markdown);
+    expect(reparsed.errors).toEqual([]);
+    expect(reparsed.schemas.get('products')?.fields.filter(field => field.name !== 'name'))
+      .toEqual(schema.fields.filter(field => field.name !== 'name'));
+    expect(reparsed.schemas.get('products')?.indexes).toEqual(schema.indexes);
+  });
+
+  it('imports a hand-written flat JSON Schema', () => {
+    const json: JsonSchema = {
+      title: 'Order Line',
+      type: 'object',
+      properties: {
+        sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' },
+        quantity: { type: 'integer', minimum: 1 },
+        shipped: { type: 'string', format: 'date' },
+        status: { enum: ['open', 'closed'] }
+      },
+      required: ['sku', 'quantity']
+    };
+
+    const { schema, markdown } = converter.fromJsonSchema(json);
+
+    expect(schema.name).toBe('Order_Line');
+    expect(schema.fields).toEqual([
+      { name: 'sku', type: DataType.TEXT, required: true, validation: { pattern: '^[A-Z]{3}-\\d+$' } },
+      { name: 'quantity', type: DataType.NUMBER, required: true, validation: { min: 1 } },
+      { name: 'shipped', type: DataType.DATE },
+      { name: 'status', type: DataType.TEXT, validation: { oneOf: ['open', 'closed'] } }
+    ]);
+    expect(markdown.split('\n')[0]).toBe('!? datadef Order_Line');
+  });
+
+  it('rejects nested properties and untitled schemas', () => {
+    const nested: JsonSchema = { title: 'orders', type: 'object', properties: { lines: { type: 'array' } } };
+
+    expect(() => converter.fromJsonSchema(nested)).toThrow(/Property 'lines'/);
+    expect(() => converter.fromJsonSchema({ type: 'object' })).toThrow(/no title/);
+    expect(converter.fromJsonSchema({ type: 'object' }, { name: 'empty' }).schema.fields).toEqual([]);
+  });
+});
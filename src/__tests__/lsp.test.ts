@@ -0,0 +1,317 @@
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import { MarkdownDataExtensionParser } from '../parser';
+import { startLanguageServer } from '../lsp/server';
+import { Message } from '../lsp/protocol';
+
+/**
+ * Talks to the server the way an editor does over stdio: Content-Length framed JSON-RPC
+ */
+class ScriptedClient {
+  readonly input = new PassThrough();
+  readonly output = new PassThrough();
+  private buffer = '';
+  private nextId = 1;
+  private received: Message[] = [];
+  private waiting: Array<() => void> = [];
+
+  constructor() {
+    this.output.on('data', (data: Buffer) => {
+      this.buffer += data.toString('utf-8');
+      for (let match = /^Content-Length: (\d+)\r\n\r\n/.exec(this.buffer); match; match = /^Content-Length: (\d+)\r\n\r\n/.exec(this.buffer)) {
+        const length = Number(match[1]);
+        const body = Buffer.from(this.buffer.slice(match[0].length), 'utf-8');
+        if (body.length < length) return;
+        this.received.push(JSON.parse(body.subarray(0, length).toString('utf-8')));
+        this.buffer = body.subarray(length).toString('utf-8');
+        this.waiting.splice(0).forEach(wake => wake());
+      }
+    });
+  }
+
+  send(message: object): void {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    this.input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+  }
+
+  async request(method: string, params?: unknown): Promise<Message> {
+    const id = this.nextId++;
+    this.send({ id, method, params });
+    return this.next(message => message.id === id);
+  }
+
+  notify(method: string, params?: unknown): void {
+    this.send({ method, params });
+  }
+
+  async notification(method: string): Promise<Message> {
+    return this.next(message => message.method === method);
+  }
+
+  async diagnostics(uri: string, version: number): Promise<any[]> {
+    const message = await this.next(m =>
+      m.method === 'textDocument/publishDiagnostics' && (m.params as any).uri === uri && (m.params as any).version === version);
+    return (message.params as any).diagnostics;
+  }
+
+  private async next(matches: (message: Message) => boolean): Promise<Message> {
+    for (;;) {
+      const index = this.received.findIndex(matches);
+      if (index !== -1) return this.received.splice(index, 1)[0] as Message;
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+  }
+}
+
+describe('Language server', () => {
+  let dir: string;
+  let client: ScriptedClient;
+  let exited: Promise<number>;
+
+  const documentText = `# Team
+
+!? datadef employees
+!fname: id, type: number, required: true, label: "Employee ID"
+!fname: name, type: text
+!fname: joined, type: date, format: "DD/MM/YYYY"
+!#
+
+!? data employees
+| !id | !name |
+|-----|-------|
+| 1   | Ann   |
+| two | Bob   |
+!#
+
+!? data employees
+!id 3
+
+!#
+
+!? data [products](./schemas/products.md)
+!sku A-1
+!#
+`;
+  let uri: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'mdl-lsp-'));
+    mkdirSync(join(dir, 'schemas'));
+    writeFileSync(join(dir, 'schemas', 'products.md'), `# Products
+
+!? datadef products
+!fname: sku, type: text, label: "Stock code"
+!fname: price, type: number
+!#
+`);
+    uri = pathToFileURL(join(dir, 'team.md')).href;
+
+    client = new ScriptedClient();
+    exited = startLanguageServer(client.input, client.output);
+    await client.request('initialize', { processId: null, rootUri: null, capabilities: {} });
+    client.notify('initialized', {});
+    client.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'markdown', version: 1, text: documentText } });
+  });
+
+  afterEach(() => {
+    client.input.end();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should publish errors as diagnostics with the range of the bad value', async () => {
+    const diagnostics = await client.diagnostics(uri, 1);
+
+    expect(diagnostics).toEqual([expect.objectContaining({
+      severity: 1,
+      source: 'mdl',
+      code: 'type_mismatch',
+      range: { start: { line: 12, character: 2 }, end: { line: 12, character: 5 } }
+    })]);
+  });
+
+  it('should update diagnostics after incremental changes', async () => {
+    await client.diagnostics(uri, 1);
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [
+        { range: { start: { line: 12, character: 2 }, end: { line: 12, character: 5 } }, text: '2  ' },
+        { range: { start: { line: 21, character: 1 }, end: { line: 21, character: 4 } }, text: 'code' }
+      ]
+    });
+
+    const diagnostics = await client.diagnostics(uri, 2);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].range.start.line).toBe(21);
+  });
+
+  it('should complete field names in free-form records and table headers', async () => {
+    await client.diagnostics(uri, 1);
+
+    const freeform = await client.request('textDocument/completion', {
+      textDocument: { uri },
+      position: { line: 17, character: 0 }
+    });
+    expect(freeform.result).toEqual([]);
+
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ range: { start: { line: 17, character: 0 }, end: { line: 17, character: 0 } }, text: '!n' }]
+    });
+    const items = (await client.request('textDocument/completion', {
+      textDocument: { uri },
+      position: { line: 17, character: 2 }
+    })).result as any[];
+    expect(items.map(item => item.label)).toEqual(['name', 'joined']);
+    expect(items[0]).toEqual(expect.objectContaining({
+      detail: 'text',
+      textEdit: { range: { start: { line: 17, character: 1 }, end: { line: 17, character: 2 } }, newText: 'name' }
+    }));
+
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 3 },
+      contentChanges: [{ range: { start: { line: 9, character: 15 }, end: { line: 9, character: 15 } }, text: ' !' }]
+    });
+    const header = (await client.request('textDocument/completion', {
+      textDocument: { uri },
+      position: { line: 9, character: 17 }
+    })).result as any[];
+    expect(header.map(item => item.textEdit.newText)).toEqual(['!joined']);
+    expect(header[0].textEdit.range.start.character).toBe(16);
+  });
+
+  it('should complete fields of external schemas', async () => {
+    await client.diagnostics(uri, 1);
+
+    const items = (await client.request('textDocument/completion', {
+      textDocument: { uri },
+      position: { line: 21, character: 1 }
+    })).result as any[];
+    expect(items.map(item => item.label)).toEqual(['sku', 'price']);
+  });
+
+  it('should show field definitions on hover', async () => {
+    await client.diagnostics(uri, 1);
+
+    const header = await client.request('textDocument/hover', { textDocument: { uri }, position: { line: 9, character: 4 } });
+    expect(header.result).toEqual({
+      contents: { kind: 'markdown', value: '**Employee ID** `employees.id`\n\nType: `number` (required)' },
+      range: { start: { line: 9, character: 2 }, end: { line: 9, character: 5 } }
+    });
+
+    const definition = await client.request('textDocument/hover', { textDocument: { uri }, position: { line: 5, character: 10 } });
+    expect((definition.result as any).contents.value).toContain('Format: `DD/MM/YYYY`');
+
+    const external = await client.request('textDocument/hover', { textDocument: { uri }, position: { line: 21, character: 2 } });
+    expect((external.result as any).contents.value).toContain('**Stock code**');
+
+    const text = await client.request('textDocument/hover', { textDocument: { uri }, position: { line: 0, character: 3 } });
+    expect(text.result).toBeNull();
+  });
+
+  it('should go to the datadef of a data block, including in other files', async () => {
+    await client.diagnostics(uri, 1);
+
+    const local = await client.request('textDocument/definition', { textDocument: { uri }, position: { line: 8, character: 10 } });
+    expect(local.result).toEqual({ uri, range: { start: { line: 2, character: 0 }, end: { line: 2, character: 20 } } });
+
+    const external = await client.request('textDocument/definition', { textDocument: { uri }, position: { line: 20, character: 12 } });
+    expect(external.result).toEqual({
+      uri: pathToFileURL(join(dir, 'schemas', 'products.md')).href,
+      range: { start: { line: 2, character: 0 }, end: { line: 2, character: 0 } }
+    });
+  });
+
+  it('should offer quick fixes for the diagnostics under the cursor', async () => {
+    await client.diagnostics(uri, 1);
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ range: { start: { line: 9, character: 9 }, end: { line: 9, character: 13 } }, text: 'nmae' }]
+    });
+    await client.diagnostics(uri, 2);
+
+    const actions = (await client.request('textDocument/codeAction', {
+      textDocument: { uri },
+      range: { start: { line: 9, character: 10 }, end: { line: 9, character: 10 } },
+      context: { diagnostics: [] }
+    })).result as any[];
+    expect(actions).toEqual([expect.objectContaining({
+      title: "Change to 'name'",
+      kind: 'quickfix',
+      isPreferred: true,
+      edit: { changes: { [uri]: [{ range: { start: { line: 9, character: 9 }, end: { line: 9, character: 13 } }, newText: 'name' }] } }
+    })]);
+
+    const elsewhere = await client.request('textDocument/codeAction', {
+      textDocument: { uri },
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+      context: { diagnostics: [] }
+    });
+    expect(elsewhere.result).toEqual([]);
+  });
+
+  it('should use open documents in place of files on disk', async () => {
+    await client.diagnostics(uri, 1);
+    const productsUri = pathToFileURL(join(dir, 'schemas', 'products.md')).href;
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri: productsUri, languageId: 'markdown', version: 1, text: '!? datadef products\n!fname: code, type: text\n!#\n' }
+    });
+    await client.diagnostics(productsUri, 1);
+
+    client.notify('textDocument/didChange', { textDocument: { uri, version: 2 }, contentChanges: [{ text: documentText }] });
+    const diagnostics = await client.diagnostics(uri, 2);
+    expect(diagnostics.map(d => d.code)).toContain('invalid_field_name');
+  });
+
+  it('should log malformed notifications and answer malformed requests without stopping', async () => {
+    await client.diagnostics(uri, 1);
+    client.notify('textDocument/didOpen', { textDocument: null });
+    client.notify('textDocument/didChange', { textDocument: { uri, version: 2 } });
+
+    expect((await client.notification('window/logMessage')).params).toEqual({
+      type: 1,
+      message: 'textDocument/didOpen failed: textDocument must be an object'
+    });
+    expect((await client.notification('window/logMessage')).params).toEqual({
+      type: 1,
+      message: 'textDocument/didChange failed: contentChanges must be an array'
+    });
+
+    const hover = await client.request('textDocument/hover', { textDocument: { uri } });
+    expect(hover.error).toEqual({ code: -32602, message: 'position must be an object' });
+
+    client.notify('textDocument/didChange', { textDocument: { uri, version: 3 }, contentChanges: [{ text: documentText }] });
+    expect((await client.diagnostics(uri, 3)).length).toBeGreaterThan(0);
+  });
+
+  it('should publish a failed parse as a diagnostic and parse later changes', async () => {
+    await client.diagnostics(uri, 1);
+    const parseAsync = jest.spyOn(MarkdownDataExtensionParser.prototype, 'parseAsync')
+      .mockRejectedValueOnce(new Error('Schema file unreadable'));
+
+    try {
+      client.notify('textDocument/didChange', { textDocument: { uri, version: 2 }, contentChanges: [{ text: documentText }] });
+      expect(await client.diagnostics(uri, 2)).toEqual([expect.objectContaining({
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        severity: 1,
+        message: 'Could not parse document: Schema file unreadable'
+      })]);
+
+      client.notify('textDocument/didChange', { textDocument: { uri, version: 3 }, contentChanges: [{ text: documentText }] });
+      expect((await client.diagnostics(uri, 3)).map(d => d.code)).toContain('type_mismatch');
+    } finally {
+      parseAsync.mockRestore();
+    }
+  });
+
+  it('should answer unknown requests with an error and exit after shutdown', async () => {
+    const unknown = await client.request('workspace/unknown', {});
+    expect(unknown.error?.code).toBe(-32601);
+
+    await client.request('shutdown');
+    client.notify('exit');
+    await expect(exited).resolves.toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { RecordQuery } from '../query';
+import { ParseResult } from '../types';
+
+describe('RecordQuery', () => {
+  let result: ParseResult;
+
+  beforeEach(() => {
+    result = new MarkdownDataExtensionParser().parse(`
+!? datadef employees
+!fname: id, type: number, required: true
+!fname: name, type: text
+!fname: dept, type: text
+!fname: salary, type: number, format: "$n,n.##"
+!fname: hired, type: date, format: "DD/MM/YYYY"
+!fname: starts, type: time
+!#
+
+!? data employees
+| !id | !name          | !dept | !salary | !hired     | !starts |
+|-----|----------------|-------|---------|------------|---------|
+| 1   | Alice Smith    | Eng   | 9,500   | 15/03/2021 | 9:00    |
+| 2   | Bob Jones      | Ops   | 10,000  | 02/11/2023 | 10:30   |
+| 3   | Carol Smithers | Eng   | 12,250  | 01/01/2020 | 08:15   |
+| 4   | Dan Brown      | Ops   |         | 20/06/2024 |         |
+!#
+`);
+  });
+
+  const ids = (query: RecordQuery) => query.toArray().map(record => record.id);
+
+  it('should compare numbers numerically rather than as text', () => {
+    const query = RecordQuery.from(result, 'employees');
+
+    expect(ids(query.where('salary', 'gt', 9999))).toEqual([2, 3]);
+    expect(ids(query.where('salary', 'between', ['9,000', 10000]))).toEqual([1, 2]);
+    expect(ids(query.where('salary', 'empty'))).toEqual([4]);
+  });
+
+  it('should compare dates and times chronologically', () => {
+    const query = RecordQuery.from(result, 'employees');
+
+    expect(ids(query.where('hired', 'before', '2022-01-01'))).toEqual([1, 3]);
+    expect(ids(query.where('hired', 'after', new Date(2023, 10, 2)))).toEqual([4]);
+    expect(ids(query.where('hired', 'eq', '02/11/2023'))).toEqual([2]);
+    expect(ids(query.where('starts', 'lt', '9:30'))).toEqual([1, 3]);
+  });
+
+  it('should match text case-insensitively and combine filters', () => {
+    const query = RecordQuery.from(result, 'employees');
+
+    expect(ids(query.where('name', 'contains', 'SMITH'))).toEqual([1, 3]);
+    expect(ids(query.where('name', 'contains', 'smith').where('salary', 'lt', 10000))).toEqual([1]);
+    expect(ids(query.where('dept', 'in', ['Ops']).where(record => record.name !== 'Dan Brown'))).toEqual([2]);
+  });
+
+  it('should sort by several fields with empty values last', () => {
+    const query = RecordQuery.from(result, 'employees');
+
+    expect(ids(query.orderBy('salary', 'desc'))).toEqual([3, 2, 1, 4]);
+    expect(ids(query.orderBy('dept').orderBy('hired', 'desc'))).toEqual([1, 3, 4, 2]);
+    expect(query.orderBy('hired').select('name', 'salary').limit(2).toArray()).toEqual([
+      { name: 'Carol Smithers', salary: 12250 },
+      { name: 'Alice Smith', salary: 9500 }
+    ]);
+  });
+
+  it('should group records with aggregates', () => {
+    const rows = RecordQuery.from(result, 'employees').groupBy('dept', {
+      people: { fn: 'count' },
+      paid: { fn: 'count', field: 'salary' },
+      total: { fn: 'sum', field: 'salary' },
+      average: { fn: 'avg', field: 'salary' },
+      earliest: { fn: 'min', field: 'hired' },
+      latest: { fn: 'max', field: 'hired' }
+    });
+
+    expect(rows).toEqual([
+      { dept: 'Eng', people: 2, paid: 2, total: 21750, average: 10875, earliest: new Date(2020, 0, 1), latest: new Date(2021, 2, 15) },
+      { dept: 'Ops', people: 2, paid: 1, total: 10000, average: 10000, earliest: new Date(2023, 10, 2), latest: new Date(2024, 5, 20) }
+    ]);
+  });
+
+  it('should reject unknown fields and invalid aggregates', () => {
+    const query = RecordQuery.from(result, 'employees');
+
+    expect(() => query.where('age', 'gt', 30)).toThrow("Unknown field 'age' in schema 'employees'");
+    expect(() => query.groupBy('dept', { total: { fn: 'sum', field: 'name' } })).toThrow(/cannot sum text field 'name'/);
+    expect(() => RecordQuery.from(result, 'missing')).toThrow("Schema 'missing' not found in parse result");
+  });
+});
@@ -0,0 +1,121 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { applyFixes, applyTextEdits } from '../editor';
+import { editDistance, suggestNames } from '../utils';
+import { ErrorType } from '../types';
+
+describe('Quick fixes', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  const source = `!? datadef staff
+!fname: name, type: text
+!fname: salary, type: numbr
+!fname: started, type: date
+!#
+
+!? datadef draft
+!fname: title, type: text, label: "Full title" required: true
+!index: "titel"
+!#
+
+!? data staff
+| !name | !salry |
+|-------|--------|
+| Ann   | 100    |
+!#
+
+!? data staff
+!nmae Bob
+!#
+`;
+
+  it('should suggest a comma between run-on attributes', () => {
+    const result = parser.parse(source);
+    const error = result.errors.find(e => e.message.startsWith('Missing comma'));
+
+    expect(error?.fixes).toEqual([{
+      title: 'Insert comma before "required"',
+      edits: [{ start: source.indexOf(' required'), end: source.indexOf(' required'), newText: ',' }]
+    }]);
+  });
+
+  it('should suggest a comma between the field name and any attribute', () => {
+    for (const attribute of ['type', 'label', 'format', 'valid', 'ref', 'required']) {
+      const text = `!? datadef pay\n!fname: salary ${attribute}: x\n!#\n`;
+      const error = parser.parse(text).errors.find(e => e.message.startsWith('Missing comma'));
+      const at = text.indexOf(` ${attribute}:`);
+
+      expect(error?.fixes).toEqual([{
+        title: `Insert comma before "${attribute}"`,
+        edits: [{ start: at, end: at, newText: ',' }]
+      }]);
+    }
+
+    // Once the comma is in, the schema parses and its own fixes show up
+    const text = source.replace('salary, type: numbr', 'salary type: numbr');
+    const fixed = applyFixes(text, parser.parse(text).errors).text;
+    expect(fixed).toContain('!fname: salary, type: numbr');
+    expect(parser.parse(fixed).warnings.find(w => w.fieldName === 'salary')?.fixes?.[0]?.title).toBe("Change to 'number'");
+  });
+
+  it('should suggest the nearest data type for an unknown one', () => {
+    const warning = parser.parse(source).warnings.find(w => w.fieldName === 'salary');
+    const start = source.indexOf('numbr');
+
+    expect(warning?.fixes).toEqual([{ title: "Change to 'number'", edits: [{ start, end: start + 5, newText: 'number' }] }]);
+  });
+
+  it('should suggest schema fields for misspelled headers, free-form fields and index fields', () => {
+    const result = parser.parse(source);
+    const newText = (type: ErrorType, fieldName: string) => result.errors
+      .find(e => e.type === type && e.fieldName === fieldName)?.fixes?.map(fix => fix.edits[0]?.newText);
+
+    expect(newText(ErrorType.INVALID_FIELD_NAME, 'salry')).toEqual(['salary']);
+    expect(newText(ErrorType.INVALID_FIELD_NAME, 'nmae')).toEqual(['name']);
+    expect(newText(ErrorType.INVALID_INDEX_REFERENCE, 'titel')).toEqual(['title']);
+  });
+
+  it('should apply every fix and leave a document that parses cleanly', () => {
+    const result = parser.parse(source);
+    const fixed = applyFixes(source, [...result.errors, ...result.warnings]);
+
+    expect(fixed.fixed).toBe(5);
+    expect(fixed.text).toContain('label: "Full title", required: true');
+    expect(fixed.text).toContain('!fname: salary, type: number');
+    expect(fixed.text).toContain('| !name | !salary |');
+    expect(fixed.text).toContain('!name Bob');
+
+    const reparsed = new MarkdownDataExtensionParser().parse(fixed.text);
+    expect(reparsed.errors).toEqual([]);
+    expect(reparsed.warnings).toEqual([]);
+    expect(reparsed.data.get('staff')?.map(entry => entry.fields.get('name'))).toEqual(['Ann', 'Bob']);
+  });
+
+  it('should leave problems with several suggestions for the author', () => {
+    const text = '!? datadef pair\n!fname: code1, type: text\n!fname: code2, type: text\n!#\n\n!? data pair\n!code 1\n!#\n';
+    const result = parser.parse(text);
+
+    expect(result.errors[0]?.fixes?.map(fix => fix.title)).toEqual(["Change to 'code1'", "Change to 'code2'"]);
+    expect(applyFixes(text, result.errors)).toEqual({ text, edits: [], fixed: 0 });
+  });
+
+  it('should move fix offsets with their text on reparse', () => {
+    const result = parser.parse(source);
+    const updated = parser.reparse(result, { offset: 0, deletedLength: 0, insertedText: '# Staff\n\n' });
+    const text = `# Staff\n\n${source}`;
+    const error = updated.errors.find(e => e.fieldName === 'salry');
+
+    expect(applyTextEdits(text, error?.fixes?.[0]?.edits ?? [])).toContain('| !name | !salary |');
+  });
+
+  it('should measure edit distance with adjacent swaps as one edit', () => {
+    expect(editDistance('nmae', 'name')).toBe(1);
+    expect(editDistance('salry', 'salary')).toBe(1);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(suggestNames('Salary', ['salary', 'started'])).toEqual(['salary']);
+    expect(suggestNames('colour', ['type', 'label', 'format'])).toEqual([]);
+  });
+});
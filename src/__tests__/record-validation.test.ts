@@ -0,0 +1,346 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { ErrorType } from '../types';
+
+describe('Record validation', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  describe('required fields', () => {
+    const schema = `
+!? datadef employees
+!fname: id, type: number, required: true
+!fname: name, type: text, required: true
+!fname: notes, type: text
+!#
+`;
+
+    it('should report empty required table cells per record', () => {
+      const result = parser.parse(`${schema}
+!? data employees
+| !id | !name | !notes |
+|-----|-------|--------|
+| 1 | Alice | |
+| 2 |  | temp |
+!#
+`);
+
+      const missing = result.errors.filter(e => e.type === ErrorType.MISSING_REQUIRED_FIELD);
+      expect(missing).toHaveLength(1);
+      expect(missing[0]).toMatchObject({
+        fieldName: 'name',
+        schemaName: 'employees',
+        recordNumber: 2,
+        lineNumber: 12,
+        blockNumber: 2,
+        blockType: 'data'
+      });
+    });
+
+    it('should report required fields absent from freeform records', () => {
+      const result = parser.parse(`${schema}
+!? data employees
+!id 1
+!name Alice
+!-
+!id 2
+!notes no name given
+!#
+`);
+
+      const missing = result.errors.filter(e => e.type === ErrorType.MISSING_REQUIRED_FIELD);
+      expect(missing).toHaveLength(1);
+      expect(missing[0]?.fieldName).toBe('name');
+      expect(missing[0]?.recordNumber).toBe(2);
+      expect(missing[0]?.lineNumber).toBe(11);
+    });
+
+    it('should report required columns missing from the table header', () => {
+      const result = parser.parse(`${schema}
+!? data employees
+| !id |
+|-----|
+| 1 |
+| 2 |
+!#
+`);
+
+      const missing = result.errors.filter(e => e.type === ErrorType.MISSING_REQUIRED_FIELD);
+      expect(missing.map(e => e.recordNumber)).toEqual([1, 2]);
+    });
+
+    it('should skip required field checks when validateData is false', () => {
+      const result = parser.parse(`${schema}
+!? data employees
+!id 1
+!#
+`, { validateData: false });
+
+      expect(result.errors).toHaveLength(0);
+    });
+  });
+});
+
+describe('Validation rules', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  it('should store parsed rules on the field definition', () => {
+    const result = parser.parse(`
+!? datadef products
+!fname: name, type: text, valid: {min: 3, max: 100}
+!fname: category, type: text, valid: {options: ["Electronics", "Home, Garden"]}
+!fname: sku, type: text, valid: {pattern: "^[A-Z]{3}-\\d+$", maxLength: 10}
+!fname: launched, type: date, valid: {min: "2020-01-01", max: "2025-12-31"}
+!#
+`);
+
+    expect(result.errors).toHaveLength(0);
+    const fields = result.schemas.get('products')?.fields;
+    expect(fields?.[0]?.validation).toEqual({ min: 3, max: 100 });
+    expect(fields?.[1]?.validation).toEqual({ oneOf: ['Electronics', 'Home, Garden'] });
+    expect(fields?.[2]?.validation).toEqual({ pattern: '^[A-Z]{3}-\\d+$', maxLength: 10 });
+    expect(fields?.[3]?.validation).toEqual({ min: '2020-01-01', max: '2025-12-31' });
+  });
+
+  it('should report MALFORMED_VALIDATION_RULES for bad rule syntax', () => {
+    const result = parser.parse(`
+!? datadef products
+!fname: price, type: number, valid: {min 0}
+!fname: stock, type: number, valid: {between: 5}
+!fname: launched, type: date, valid: {min: "someday"}
+!#
+`);
+
+    const malformed = result.errors.filter(e => e.type === ErrorType.MALFORMED_VALIDATION_RULES);
+    expect(malformed.map(e => e.fieldName)).toEqual(['price', 'stock', 'launched']);
+  });
+
+  it('should report VALIDATION_FAILED for each offending value', () => {
+    const result = parser.parse(`
+!? datadef products
+!fname: name, type: text, valid: {min: 3}
+!fname: category, type: text, valid: {oneOf: [Electronics, Books]}
+!fname: price, type: number, valid: {min: 0.01, max: 10000}
+!fname: launched, type: date, valid: {min: "2020-01-01"}
+!#
+
+!? data products
+| !name | !category | !price | !launched |
+|-------|-----------|--------|-----------|
+| Laptop | Electronics | 999.99 | 2021-05-01 |
+| TV | Garden | 20000 | 2019-12-31 |
+!#
+`);
+
+    const failures = result.errors.filter(e => e.type === ErrorType.VALIDATION_FAILED);
+    expect(failures.map(e => e.fieldName)).toEqual(['name', 'category', 'price', 'launched']);
+    expect(failures.every(e => e.recordNumber === 2 && e.lineNumber === 13)).toBe(true);
+  });
+
+  it('should read quoted numeric bounds and date bounds in the field pattern', () => {
+    const result = parser.parse(`
+!? datadef orders
+!fname: quantity, type: number, valid: {min: "10"}
+!fname: placed, type: date, format: "DD/MM/YYYY", valid: {min: "02/01/2024", max: "2024-12-31"}
+!#
+
+!? data orders
+!quantity 5
+!placed 01/01/2024
+!-
+!quantity 12
+!placed 02/01/2024
+!#
+`);
+
+    expect(result.errors.filter(e => e.type === ErrorType.MALFORMED_VALIDATION_RULES)).toHaveLength(0);
+    expect(result.schemas.get('orders')?.fields[0]?.validation).toEqual({ min: 10 });
+    const failures = result.errors.filter(e => e.type === ErrorType.VALIDATION_FAILED);
+    expect(failures.map(e => [e.fieldName, e.lineNumber])).toEqual([['quantity', 8], ['placed', 9]]);
+  });
+});
+
+describe('Type mismatches', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  const schema = `
+!? datadef stock
+!fname: item, type: text
+!fname: quantity, type: number
+!fname: active, type: boolean
+!#
+`;
+
+  it('should report TYPE_MISMATCH with value, expected type, line and column', () => {
+    const result = parser.parse(`${schema}
+!? data stock
+| !item | !quantity | !active |
+|-------|-----------|---------|
+| Bolt  | abc       | maybe   |
+!#
+`);
+
+    const mismatches = result.errors.filter(e => e.type === ErrorType.TYPE_MISMATCH);
+    expect(mismatches).toHaveLength(2);
+    expect(mismatches[0]).toMatchObject({
+      fieldName: 'quantity',
+      value: 'abc',
+      expectedType: 'number',
+      lineNumber: 11,
+      columnNumber: 11,
+      recordNumber: 1
+    });
+    expect(mismatches[1]).toMatchObject({ fieldName: 'active', value: 'maybe', columnNumber: 23 });
+  });
+
+  it('should locate freeform values', () => {
+    const result = parser.parse(`${schema}
+!? data stock
+!item Bolt
+!quantity   ten
+!#
+`);
+
+    const mismatch = result.errors.find(e => e.type === ErrorType.TYPE_MISMATCH);
+    expect(mismatch).toMatchObject({ fieldName: 'quantity', lineNumber: 10, columnNumber: 13 });
+  });
+
+  it('should leave mismatched values as the original string', () => {
+    const result = parser.parse(`${schema}
+!? data stock
+!item Bolt
+!quantity abc
+!active maybe
+!#
+`);
+    const entries = result.data.get('stock') ?? [];
+    const validation = parser.validateData(entries, result.schemas.get('stock')!);
+
+    expect(validation.errors.map(e => e.type)).toEqual([ErrorType.TYPE_MISMATCH, ErrorType.TYPE_MISMATCH]);
+    expect(entries[0]?.fields.get('quantity')).toBe('abc');
+    expect(entries[0]?.fields.get('active')).toBe('maybe');
+  });
+});
+
+describe('Date formats', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  const schema = `
+!? datadef events
+!fname: title, type: text
+!fname: held, type: date, format: "DD/MM/YYYY"
+!fname: opened, type: date, format: {"MMM D YY", "YYYY-MM-DD"}
+!#
+`;
+
+  it('should read dates strictly against the declared pattern', () => {
+    const result = parser.parse(`${schema}
+!? data events
+| !title | !held      | !opened    |
+|--------|------------|------------|
+| Expo   | 25/12/2024 | Mar 5 24   |
+| Fair   | 12/25/2024 | 2024-03-05 |
+!#
+`);
+
+    const mismatches = result.errors.filter(e => e.type === ErrorType.TYPE_MISMATCH);
+    expect(mismatches.map(e => [e.fieldName, e.value])).toEqual([
+      ['held', '12/25/2024'],
+      ['opened', '2024-03-05']
+    ]);
+    expect(mismatches[0]?.message).toContain('expected date in format DD/MM/YYYY');
+  });
+
+  it('should normalize pattern dates to ISO 8601', () => {
+    const result = parser.parse(`${schema}
+!? data events
+!title Expo
+!held 05/03/2024
+!opened mar 5 24
+!#
+`, { typedValues: true });
+    const entry = result.data.get('events')?.[0];
+
+    expect(entry?.fields.get('held')).toEqual(new Date(2024, 2, 5));
+    expect(entry?.fields.get('opened')).toEqual(new Date(2024, 2, 5));
+
+    const entries = [{ schemaName: 'events', fields: new Map<string, unknown>([['held', '05/03/2024']]) }];
+    const validation = parser.validateData(entries, result.schemas.get('events')!);
+    expect(validation.errors).toHaveLength(0);
+    expect(entries[0]?.fields.get('held')).toBe('2024-03-05');
+  });
+
+  it('should reject impossible dates that fit the pattern', () => {
+    const result = parser.parse(`${schema}
+!? data events
+!title Expo
+!held 31/04/2024
+!#
+`);
+
+    expect(result.errors.some(e => e.type === ErrorType.TYPE_MISMATCH && e.fieldName === 'held')).toBe(true);
+  });
+
+  it('should read dual formats whose patterns contain commas', () => {
+    const result = parser.parse(`
+!? datadef launches
+!fname: day, type: date, format: {"MMM D, YYYY", "YYYY-MM-DD"}
+!#
+
+!? data launches
+!day Mar 5, 2024
+!#
+`);
+
+    expect(result.schemas.get('launches')?.fields[0]?.format).toEqual({ input: 'MMM D, YYYY', display: 'YYYY-MM-DD' });
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should keep two-digit years as written', () => {
+    const result = parser.parse(`${schema}
+!? data events
+!title Founding
+!held 29/02/0000
+!-
+!title Census
+!held 05/03/0050
+!#
+`, { typedValues: true });
+
+    expect(result.errors).toHaveLength(0);
+    expect((result.data.get('events')?.[1]?.fields.get('held') as Date).getFullYear()).toBe(50);
+  });
+
+  it('should warn about ambiguous dates in fields without a pattern', () => {
+    const result = parser.parse(`
+!? datadef log
+!fname: day, type: date
+!#
+
+!? data log
+!day 03/04/2024
+!-
+!day 13/04/2024
+!#
+`);
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toMatchObject({ fieldName: 'day', lineNumber: 7 });
+    expect(result.warnings[0]?.message).toContain("Ambiguous date '03/04/2024'");
+  });
+});
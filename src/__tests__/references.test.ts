@@ -0,0 +1,105 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { MarkdownDataSerializer } from '../serializer';
+import { ErrorType } from '../types';
+
+describe('Schema references', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  const source = `
+!? datadef employees
+!fname: name, type: text, required: true
+!fname: dept, type: text, ref: departments.id
+!#
+
+!? data employees
+| !name | !dept |
+|-------|-------|
+| Ann   | ENG   |
+| Bob   | OPS   |
+| Cat   |       |
+!#
+
+!? datadef departments
+!fname: id, type: text, required: true
+!fname: title, type: text
+!index: "id"
+!#
+
+!? data departments
+!id ENG
+!title Engineering
+!#
+`;
+
+  it('should parse ref attributes and write them back', () => {
+    const result = parser.parse(source);
+    const dept = result.schemas.get('employees')?.fields.find(f => f.name === 'dept');
+
+    expect(dept?.ref).toEqual({ schema: 'departments', field: 'id' });
+    expect(new MarkdownDataSerializer().serializeSchema(result.schemas.get('employees')!))
+      .toContain('!fname: dept, type: text, ref: departments.id');
+  });
+
+  it('should join records to referenced records in later blocks', () => {
+    const result = parser.parse(source);
+    const [ann, bob, cat] = result.data.get('employees') || [];
+
+    expect(ann?.references?.get('dept')?.fields.get('title')).toBe('Engineering');
+    expect(bob?.references).toBeUndefined();
+    expect(cat?.references).toBeUndefined();
+  });
+
+  it('should report dangling references at the offending cell', () => {
+    const dangling = parser.parse(source).errors.filter(e => e.type === ErrorType.DANGLING_REFERENCE);
+
+    expect(dangling).toEqual([
+      expect.objectContaining({
+        schemaName: 'employees',
+        fieldName: 'dept',
+        value: 'OPS',
+        lineNumber: 11,
+        blockNumber: 2,
+        recordNumber: 2,
+        message: "Value 'OPS' for field 'dept' (record 2) does not match any departments.id"
+      })
+    ]);
+    expect(dangling[0]?.columnNumber).toBeGreaterThan(1);
+  });
+
+  it('should only report dangling references when validating data', () => {
+    const result = parser.parse(source, { validateData: false });
+
+    expect(result.errors.some(e => e.type === ErrorType.DANGLING_REFERENCE)).toBe(false);
+    expect(result.data.get('employees')?.[0]?.references?.has('dept')).toBe(true);
+  });
+
+  it('should report references to unknown schemas and fields', () => {
+    const result = parser.parse(`
+!? datadef orders
+!fname: customer, type: text, ref: customers.id
+!fname: product, type: text, ref: orders.sku
+!#
+`);
+    const invalid = result.errors.filter(e => e.type === ErrorType.INVALID_REFERENCE);
+
+    expect(invalid.map(e => e.message)).toEqual([
+      "Field 'customer' references unknown schema 'customers'",
+      "Field 'product' references unknown field 'sku' in schema 'orders'"
+    ]);
+  });
+
+  it('should reject malformed ref attributes', () => {
+    const result = parser.parse(`
+!? datadef orders
+!fname: customer, type: text, ref: customers
+!#
+`);
+
+    expect(result.errors).toContainEqual(expect.objectContaining({ type: ErrorType.MALFORMED_FIELD_ATTRIBUTE }));
+    expect(result.schemas.get('orders')?.fields[0]?.ref).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { ErrorType } from '../types';
+
+describe('Schema recovery', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  const source = `!? datadef employees
+!fname: id, type: number, required: true
+!fname: name, type: text, label: "Name" required: true
+!fname: joined, type: date
+!fname: manager, type: number, ref: employees.name
+!index: "name"
+!#
+
+!? data employees
+| !id | !name | !joined    |
+|-----|-------|------------|
+| 1   | Ann   | 2024-01-15 |
+| x   | Bob   | 2024-02-01 |
+!#
+
+!? data employees
+!id 3
+!name Cat
+!#
+`;
+
+  it('should drop the schema and report every data block without recovery', () => {
+    const result = parser.parse(source);
+
+    expect(result.schemas.has('employees')).toBe(false);
+    expect(result.errors.filter(e => e.type === ErrorType.SCHEMA_NOT_FOUND)).toHaveLength(2);
+  });
+
+  it('should keep the valid fields of a schema marked partial', () => {
+    const result = parser.parse(source, { recoverSchemas: true });
+    const schema = result.schemas.get('employees');
+
+    expect(schema?.partial).toBe(true);
+    expect(schema?.omittedFields).toEqual(['name']);
+    expect(schema?.fields.map(field => field.name)).toEqual(['id', 'joined', 'manager']);
+    expect(schema?.indexes).toEqual([]);
+  });
+
+  it('should parse data blocks against a partial schema, reporting only the broken field', () => {
+    const result = parser.parse(source, { recoverSchemas: true });
+
+    expect(result.errors.map(e => [e.type, e.lineNumber])).toEqual([
+      [ErrorType.MALFORMED_FIELD_ATTRIBUTE, 3],
+      [ErrorType.TYPE_MISMATCH, 13]
+    ]);
+    expect(result.data.get('employees')?.map(entry => entry.fields.get('id'))).toEqual(['1', 'x', '3']);
+  });
+
+  it('should not mark schemas without errors as partial', () => {
+    const result = parser.parse(source.replace('"Name" required', '"Name", required'), { recoverSchemas: true });
+
+    expect(result.errors.map(e => e.type)).toEqual([ErrorType.TYPE_MISMATCH]);
+    expect(result.schemas.get('employees')).not.toHaveProperty('partial');
+  });
+});
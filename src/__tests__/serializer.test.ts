@@ -0,0 +1,130 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { MarkdownDataSerializer } from '../serializer';
+import { ParseResult } from '../types';
+
+describe('MarkdownDataSerializer', () => {
+  let parser: MarkdownDataExtensionParser;
+  let serializer: MarkdownDataSerializer;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+    serializer = new MarkdownDataSerializer();
+  });
+
+  const source = `
+!? datadef products
+!fname: id, type: number, label: "Product ID", required: true
+!fname: name, type: text, label: 'Say "hi"', valid: {minLength: 2, pattern: "^[A-Z]"}
+!fname: price, type: number, format: "$n,n.##", valid: {min: 0, max: 1000}
+!fname: launched, type: date, format: {"DD/MM/YYYY", "YYYY-MM-DD"}
+!fname: category, type: text, valid: {oneOf: ["tools", "parts"]}
+!fname: active, type: boolean
+!index: "id"
+!index: "category+name"
+!#
+
+Some prose between blocks.
+
+!? data products
+| !id | !name | !price | !launched | !category | !active |
+|-----|-------|--------|-----------|-----------|---------|
+| 1 | Hammer | 12.5 | 25/12/2024 | tools | true |
+| 2 | Bolt |  | 01/02/2024 | parts | false |
+!#
+
+!? data products
+!id 3
+!name: Time: 10:30
+!category tools
+!-
+!id 4
+!name Nut | Washer
+!#
+`;
+
+  const records = (result: ParseResult) =>
+    (result.data.get('products') ?? []).map(entry => Object.fromEntries(entry.fields));
+
+  it('should reproduce schemas and records when parsed again', () => {
+    const original = parser.parse(source);
+    const output = serializer.serialize(original);
+    const reparsed = parser.parse(output);
+
+    expect(original.errors).toHaveLength(0);
+    expect(reparsed.errors).toHaveLength(0);
+    expect(reparsed.schemas.get('products')).toEqual({
+      ...original.schemas.get('products'),
+      lineNumber: 1
+    });
+    expect(records(reparsed)).toEqual(records(original));
+    expect(reparsed.blockData.blocks.map(b => b.records.length)).toEqual([2, 2]);
+  });
+
+  it('should write field attributes, dual formats and indexes', () => {
+    const schema = parser.parse(source).schemas.get('products')!;
+    const output = serializer.serializeSchema(schema);
+
+    expect(output).toContain('!fname: name, type: text, label: \'Say "hi"\', valid: {minLength: 2, pattern: "^[A-Z]"}');
+    expect(output).toContain('!fname: launched, type: date, format: {"DD/MM/YYYY", "YYYY-MM-DD"}');
+    expect(output).toContain('!index: "category+name"');
+  });
+
+  it('should choose freeform for records a table cannot hold', () => {
+    const result = parser.parse(source);
+    const output = serializer.serialize(result);
+
+    expect(output).toContain('| !id | !name  |');
+    expect(output).toContain('!name: Time: 10:30');
+    expect(output).toContain('!name Nut | Washer');
+  });
+
+  it('should honour an explicit layout', () => {
+    const result = parser.parse(source);
+    const entries = result.blockData.blocks[0]!.records;
+    const output = serializer.serializeData('products', entries, result.schemas.get('products'), { layout: 'freeform' });
+
+    expect(output.split('\n')).toEqual(expect.arrayContaining(['!? data products', '!id 1', '!price', '!-', '!#']));
+  });
+
+  it('should refuse a table layout for values a cell cannot hold', () => {
+    const markdown = `!? datadef notes
+!fname: id, type: number
+!fname: text, type: text
+!#
+
+!? data notes
+!id 1
+!text !#
+!-
+!id 2
+!text !important
+!#
+`;
+    const result = parser.parse(markdown);
+    const entries = result.blockData.blocks[0]!.records;
+    const schema = result.schemas.get('notes');
+
+    expect(() => serializer.serializeData('notes', entries, schema, { layout: 'table' }))
+      .toThrow("Value for field 'text' in schema 'notes' contains '|' or '!' and cannot be written to a table cell");
+
+    const reparsed = parser.parse(serializer.serialize(result));
+    expect(reparsed.errors).toEqual([]);
+    expect(reparsed.data.get('notes')?.map(entry => entry.fields.get('text'))).toEqual(['!#', '!important']);
+  });
+
+  it('should write typed values using their original text', () => {
+    const typed = parser.parse(source, { typedValues: true });
+    const reparsed = parser.parse(serializer.serialize(typed));
+
+    expect(records(reparsed)).toEqual(records(parser.parse(source)));
+  });
+
+  it('should write Date values in the field input format', () => {
+    const result = parser.parse(source);
+    const entry = result.blockData.blocks[0]!.records[0]!;
+    entry.fields.set('launched', new Date(2025, 0, 9));
+    entry.rawFields = undefined;
+
+    expect(serializer.serialize(result)).toContain('09/01/2025');
+  });
+});
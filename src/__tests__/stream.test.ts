@@ -0,0 +1,124 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { InMemorySchemaResolver } from '../resolvers/memory';
+import { ParseEvent } from '../types';
+
+describe('Streaming parser', () => {
+  let parser: MarkdownDataExtensionParser;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+  });
+
+  const source = `# Products
+
+!? datadef products
+!fname: id, type: number, required: true
+!fname: name, type: text
+!fname: price, type: number
+!#
+
+!? data products
+| !id | !name    | !price |
+|-----|----------|--------|
+| 1   | Hammer   | 12.5   |
+| 2   | Crème    | abc    |
+!#
+
+Notes about the catalogue.
+
+!? data products
+!id 3
+!name Saw
+!-
+!id 4
+!name Drill
+!#
+`;
+
+  async function* pieces(text: string, size: number): AsyncGenerator<string> {
+    for (let i = 0; i < text.length; i += size) {
+      yield text.slice(i, i + size);
+    }
+  }
+
+  const collect = async (events: AsyncIterable<ParseEvent>) => {
+    const collected: ParseEvent[] = [];
+    for await (const event of events) {
+      collected.push(event);
+    }
+    return collected;
+  };
+
+  it('should yield the same schemas, blocks and errors as a full parse', async () => {
+    const full = new MarkdownDataExtensionParser().parse(source);
+
+    for (const size of [1, 7, 64, source.length]) {
+      const events = await collect(parser.parseStream(pieces(source, size)));
+
+      expect(events.filter(e => e.type === 'schema').map(e => e.type === 'schema' && e.schema))
+        .toEqual(Array.from(full.schemas.values()));
+      expect(events.filter(e => e.type === 'data').map(e => e.type === 'data' && e.block))
+        .toEqual(full.blockData.blocks);
+      expect(events.filter(e => e.type === 'error').map(e => e.type === 'error' && e.error))
+        .toEqual(expect.arrayContaining(full.errors));
+      expect(events[events.length - 1]).toEqual({
+        type: 'end',
+        metadata: expect.objectContaining({ totalLines: full.metadata.totalLines, schemasFound: 1, dataEntriesFound: 4 })
+      });
+    }
+  });
+
+  it('should yield each block before the rest of the stream is read', async () => {
+    const lines = source.split(/(?<=\n)/);
+    let read = 0;
+    async function* tracked(): AsyncGenerator<string> {
+      for (const line of lines) {
+        read++;
+        yield line;
+      }
+    }
+
+    const seen: Array<{ type: string; read: number }> = [];
+    for await (const event of parser.parseStream(tracked())) {
+      seen.push({ type: event.type, read });
+    }
+
+    const firstBlock = seen.find(e => e.type === 'data');
+    expect(seen.find(e => e.type === 'schema')?.read).toBe(lines.indexOf('!#\n') + 1);
+    expect(firstBlock?.read).toBeLessThan(lines.length);
+  });
+
+  it('should decode bytes split inside multi-byte characters', async () => {
+    const bytes = new TextEncoder().encode(source);
+    async function* byteChunks(): AsyncGenerator<Uint8Array> {
+      for (let i = 0; i < bytes.length; i += 3) {
+        yield bytes.slice(i, i + 3);
+      }
+    }
+
+    const events = await collect(parser.parseStream(byteChunks()));
+    const block = events.find(e => e.type === 'data');
+
+    expect(block?.type === 'data' && block.block.records[1]?.fields.get('name')).toBe('Crème');
+  });
+
+  it('should load external schemas for data blocks as they arrive', async () => {
+    const schemaResolver = new InMemorySchemaResolver({
+      'schemas/products.md': '!? datadef products\n!fname: id, type: number\n!fname: name, type: text\n!#\n'
+    });
+    const text = '!? data [products](../schemas/products.md)\n!id 1\n!name Saw\n!#\n\n!? data [missing](../schemas/none.md)\n!id 2\n!#\n';
+
+    const events = await collect(parser.parseStream(pieces(text, 5), { schemaResolver, sourceFile: 'docs/list.md' }));
+    const block = events.find(e => e.type === 'data');
+
+    expect(block?.type === 'data' && block.schema.sourcePath).toBe('schemas/products.md');
+    expect(events).toContainEqual({ type: 'error', error: expect.objectContaining({ type: 'external_reference_failed', lineNumber: 6 }) });
+  });
+
+  it('should report a block left open at the end of the stream', async () => {
+    const events = await collect(parser.parseStream(pieces('!? datadef open\n!fname: id, type: number\n', 4)));
+
+    expect(events).toContainEqual({ type: 'error', error: expect.objectContaining({ type: 'block_not_closed', lineNumber: 1 }) });
+    expect(events.some(e => e.type === 'schema')).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { MarkdownDataExtensionParser } from '../parser';
+import { InMemorySchemaResolver } from '../resolvers/memory';
+import { TypeScriptGenerator, getTypedRecords } from '../typegen';
+
+describe('TypeScriptGenerator', () => {
+  let parser: MarkdownDataExtensionParser;
+  let generator: TypeScriptGenerator;
+
+  beforeEach(() => {
+    parser = new MarkdownDataExtensionParser();
+    generator = new TypeScriptGenerator();
+  });
+
+  const source = `
+!? datadef team_members
+!fname: id, type: number, required: true
+!fname: name, type: text, label: "Full name", required: true
+!fname: salary, type: number, format: "$n,n.##"
+!fname: hired, type: date, format: "DD/MM/YYYY"
+!fname: starts, type: time
+!fname: active, type: boolean
+!fname: role, type: text, valid: {oneOf: ["dev", "ops", "o'neil"]}
+!#
+
+!? data team_members
+| !id | !name  | !salary | !hired     | !starts | !active | !role |
+|-----|--------|---------|------------|---------|---------|-------|
+| 1   | Ana    | 1,200   | 25/12/2024 | 09:30   | yes     | dev   |
+| 2   | Bo     |         |            |         | false   | ops   |
+!#
+`;
+
+  it('emits an interface per schema with optional non-required fields', () => {
+    const code = generator.generate(parser.parse(source).schemas);
+
+    expect(code).toContain([
+      'export interface TeamMembers {',
+      '  id: number;',
+      '  /** Full name */',
+      '  name: string;',
+      '  salary?: number;',
+      '  hired?: Date;',
+      '  starts?: Date;',
+      '  active?: boolean;',
+      "  role?: 'dev' | 'ops' | 'o\\'neil';",
+      '}'
+    ].join('\n'));
+    expect(code).toContain('export interface DataRecords {\n  team_members: TeamMembers;\n}');
+    expect(code).toContain("import { getTypedRecords } from '@chrishoward-projects/markdown-data-ext-parser';");
+    expect(code).toContain('export function getRecords<K extends keyof DataRecords>(result: ParseResult, schemaName: K, schema?: DataSchema)');
+  });
+
+  it('rejects schema names that map to the same interface', () => {
+    const schemas = parser.parse(`
+!? datadef order_lines
+!fname: id, type: number
+!#
+
+!? datadef orderLines
+!fname: id, type: number
+!#
+`).schemas;
+
+    expect(() => generator.generate(schemas)).toThrow(/OrderLines/);
+  });
+
+  it('returns records with values converted to their field types', () => {
+    const records = getTypedRecords<Record<string, unknown>>(parser.parse(source), 'team_members');
+
+    expect(records).toEqual([
+      { id: 1, name: 'Ana', salary: 1200, hired: new Date(2024, 11, 25), starts: expect.any(Date), active: true, role: 'dev' },
+      { id: 2, name: 'Bo', active: false, role: 'ops' }
+    ]);
+  });
+
+  it('leaves out records that do not fit the interface', () => {
+    const result = parser.parse(`${source}
+!? data team_members
+!id 3
+!name Cy
+!salary lots
+!-
+!id 4
+!name Di
+!role qa
+!-
+!name Ed
+!#
+`);
+
+    expect(result.errors.length).toBeGreaterThan(0);
+    expect(getTypedRecords<{ id: number }>(result, 'team_members').map(record => record.id)).toEqual([1, 2]);
+  });
+
+  it('converts records of external schemas with the schema passed in', async () => {
+    const schema = parser.parse(source).schemas.get('team_members')!;
+    const schemaResolver = new InMemorySchemaResolver();
+    schemaResolver.set('./team.md', schema);
+    const result = await parser.parseAsync('!? data [team_members](./team.md)\n!id 7\n!name Fay\n!#\n', { schemaResolver });
+
+    expect(() => getTypedRecords(result, 'team_members')).toThrow(/not found in parse result/);
+    expect(getTypedRecords(result, 'team_members', schema)).toEqual([{ id: 7, name: 'Fay' }]);
+  });
+
+  it('converts from the original text when values are already typed', () => {
+    const typed = new MarkdownDataExtensionParser().parse(source, { typedValues: true });
+
+    expect(getTypedRecords<Record<string, unknown>>(typed, 'team_members')[0]).toMatchObject({
+      salary: 1200,
+      hired: new Date(2024, 11, 25)
+    });
+  });
+});
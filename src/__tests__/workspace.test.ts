@@ -0,0 +1,151 @@
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Workspace } from '../workspace';
+import { InMemorySchemaResolver } from '../resolvers/memory';
+import { ErrorType } from '../types';
+
+describe('Workspace', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mdl-workspace-'));
+    mkdirSync(join(dir, 'schemas'));
+    mkdirSync(join(dir, 'docs'));
+    writeFileSync(join(dir, 'schemas', 'employees.md'), `# Employees
+
+!? datadef employees
+!fname: id, type: number, required: true
+!fname: name, type: text
+!#
+`);
+    writeFileSync(join(dir, 'docs', 'team.md'), `# Team
+
+!? data employees
+| !id | !name |
+|-----|-------|
+| 1   | Ann   |
+| two | Bob   |
+!#
+`);
+    writeFileSync(join(dir, 'docs', 'more.md'), `# More
+
+!? datadef employees
+!fname: id, type: number, required: true
+!fname: name, type: text
+!#
+
+!? data employees
+!id 3
+!name Cat
+!#
+`);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should resolve data blocks against schemas defined in other files', async () => {
+    const result = await new Workspace().parse(['schemas', 'docs/*.md'], dir);
+
+    expect([...result.files.keys()]).toEqual([
+      join(dir, 'docs', 'more.md'),
+      join(dir, 'docs', 'team.md'),
+      join(dir, 'schemas', 'employees.md')
+    ]);
+    expect(result.data.get('employees')?.map(entry => entry.fields.get('name'))).toEqual(['Cat', 'Ann', 'Bob']);
+    expect(result.errors).toEqual([expect.objectContaining({
+      type: ErrorType.TYPE_MISMATCH,
+      sourceFile: join(dir, 'docs', 'team.md'),
+      lineNumber: 7
+    })]);
+  });
+
+  it('should register the first definition of each schema with its source path', async () => {
+    const result = await new Workspace().parse(['schemas/*.md', 'docs/*.md'], dir);
+
+    expect([...result.schemas.keys()]).toEqual(['employees']);
+    expect(result.schemas.get('employees')?.sourcePath).toBe(join(dir, 'docs', 'more.md'));
+    expect(result.files.get(join(dir, 'docs', 'team.md'))?.schemas.size).toBe(0);
+  });
+
+  it('should report a schema defined differently in two files', async () => {
+    writeFileSync(join(dir, 'schemas', 'employees.md'), `!? datadef employees
+!fname: id, type: text
+!#
+`);
+
+    const result = await new Workspace().parseFiles([
+      join(dir, 'schemas', 'employees.md'),
+      join(dir, 'docs', 'more.md')
+    ]);
+
+    const conflicts = result.errors.filter(error => error.type === ErrorType.SCHEMA_CONFLICT);
+    expect(conflicts).toEqual([expect.objectContaining({
+      schemaName: 'employees',
+      sourceFile: join(dir, 'docs', 'more.md'),
+      lineNumber: 3,
+      message: `Schema 'employees' is defined differently in ${join(dir, 'schemas', 'employees.md')}:1`
+    })]);
+    expect(result.files.get(join(dir, 'docs', 'more.md'))?.errors).toEqual(conflicts);
+  });
+
+  it('should resolve data against the first definition when files disagree', async () => {
+    writeFileSync(join(dir, 'schemas', 'employees.md'), `!? datadef employees
+!fname: id, type: text
+!#
+`);
+    writeFileSync(join(dir, 'docs', 'team.md'), `!? data employees
+!id abc
+!#
+`);
+
+    const result = await new Workspace().parseFiles([
+      join(dir, 'docs', 'more.md'),
+      join(dir, 'docs', 'team.md'),
+      join(dir, 'schemas', 'employees.md')
+    ]);
+
+    const team = result.files.get(join(dir, 'docs', 'team.md'));
+    expect(team?.errors.map(error => error.type)).toEqual([ErrorType.TYPE_MISMATCH]);
+    expect(result.errors.filter(error => error.type === ErrorType.SCHEMA_CONFLICT)).toHaveLength(1);
+  });
+
+  it('should resolve external schema references against basePath whatever the cwd', async () => {
+    writeFileSync(join(dir, 'schemas', 'products.md'), `!? datadef products
+!fname: sku, type: text
+!#
+`);
+    writeFileSync(join(dir, 'docs', 'order.md'), `!? data [products](schemas/products.md)
+!sku A-1
+!#
+`);
+    const cwd = jest.spyOn(process, 'cwd').mockReturnValue(tmpdir());
+
+    try {
+      const result = await new Workspace({ basePath: dir }).parse([join(dir, 'docs', 'order.md')]);
+
+      expect(result.errors).toEqual([]);
+      expect(result.data.get('products')?.map(entry => entry.fields.get('sku'))).toEqual(['A-1']);
+    } finally {
+      cwd.mockRestore();
+    }
+  });
+
+  it('should read files through the schema resolver it is given', async () => {
+    const resolver = new InMemorySchemaResolver({
+      '/project/schemas/employees.md': '!? datadef employees\n!fname: name, type: text\n!#\n',
+      '/project/docs/team.md': '!? data employees\n!name Ann\n!#\n'
+    });
+
+    const result = await new Workspace({ schemaResolver: resolver }).parseFiles([
+      '/project/schemas/employees.md',
+      '/project/docs/team.md'
+    ]);
+
+    expect([...result.files.keys()]).toEqual(['/project/schemas/employees.md', '/project/docs/team.md']);
+    expect(result.data.get('employees')?.map(entry => entry.fields.get('name'))).toEqual(['Ann']);
+    expect(result.errors).toEqual([]);
+  });
+});
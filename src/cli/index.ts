@@ -0,0 +1,340 @@
+import { promises as fs } from 'fs';
+import { join, relative, resolve } from 'path';
+import { CsvConverter } from '../csv.js';
+import { applyFixes } from '../editor.js';
+import { MarkdownDataExtensionParser } from '../parser.js';
+import { DataEntry, DataSchema, DataType, ParseError, ParseResult, ParseWarning } from '../types.js';
+import { TypeScriptGenerator } from '../typegen.js';
+import { expandFileArguments } from '../glob.js';
+
+export interface CliOutput {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+interface CliOptions {
+  files: string[];
+  format: 'json' | 'csv';
+  schema?: string;
+  out?: string;
+  json: boolean;
+  warnings: boolean;
+  fix: boolean;
+}
+
+interface ParsedFile {
+  file: string;
+  result: ParseResult;
+  /** Problems corrected by --fix before the file was parsed again */
+  fixed?: number;
+}
+
+const USAGE = `Usage: mdl-data <command> [options] <files...>
+
+Commands:
+  validate   Report parse and validation errors; exits 1 when any are found
+  extract    Write records as JSON or CSV, grouped by schema
+  schemas    List schema definitions
+  types      Print TypeScript interfaces for the schemas and a typed getRecords() accessor
+
+Files may be paths, directories (searched for *.md) or quoted globs such as "docs/**/*.md".
+
+Options:
+  --format <json|csv>  Output format for extract (default: json)
+  --schema <name>      Only extract records of this schema
+  --out <dir>          Write one <schema>.<format> file per schema instead of printing
+  --json               Print schemas as JSON
+  --no-warnings        Do not print warnings from validate
+  --fix                Apply the suggested fixes of validate's problems to the files, then report what is left
+  -h, --help           Show this help`;
+
+const defaultOutput: CliOutput = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`)
+};
+
+/**
+ * Run the mdl-data command line tool
+ * Returns the process exit code: 0 on success, 1 when errors were found, 2 for usage problems
+ */
+export async function runCli(
+  args: string[],
+  output: CliOutput = defaultOutput,
+  cwd: string = process.cwd()
+): Promise<number> {
+  const [command, ...rest] = args;
+
+  if (!command || command === '-h' || command === '--help') {
+    output.stdout(USAGE);
+    return command ? 0 : 2;
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseArguments(rest);
+  } catch (error) {
+    output.stderr(`mdl-data: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+
+  if (!['validate', 'extract', 'schemas', 'types'].includes(command)) {
+    output.stderr(`mdl-data: unknown command '${command}'\n\n${USAGE}`);
+    return 2;
+  }
+
+  const files = await expandFileArguments(options.files, cwd);
+  if (files.length === 0) {
+    output.stderr('mdl-data: no files matched');
+    return 2;
+  }
+
+  const parsed: ParsedFile[] = [];
+  for (const file of files) {
+    // A fresh parser per file keeps schemas from leaking between documents
+    const result = await new MarkdownDataExtensionParser().parseFile(file);
+    if (command === 'validate' && options.fix) {
+      const fixed = await fixFile(file, reportedProblems(file, result, options));
+      parsed.push(fixed > 0
+        ? { file, result: await new MarkdownDataExtensionParser().parseFile(file), fixed }
+        : { file, result });
+    } else {
+      parsed.push({ file, result });
+    }
+  }
+
+  switch (command) {
+    case 'validate':
+      return validateCommand(parsed, options, output, cwd);
+    case 'extract':
+      return extractCommand(parsed, options, output, cwd);
+    case 'types':
+      return typesCommand(parsed, output);
+    default:
+      return schemasCommand(parsed, options, output, cwd);
+  }
+}
+
+function validateCommand(parsed: ParsedFile[], options: CliOptions, output: CliOutput, cwd: string): number {
+  let errorCount = 0;
+  let warningCount = 0;
+  let fixableCount = 0;
+
+  for (const { file, result } of parsed) {
+    for (const error of result.errors) {
+      output.stdout(formatDiagnostic(file, error, 'error', cwd));
+      errorCount++;
+    }
+    if (options.warnings) {
+      for (const warning of result.warnings) {
+        output.stdout(formatDiagnostic(file, warning, 'warning', cwd));
+        warningCount++;
+      }
+    }
+    fixableCount += reportedProblems(file, result, options).filter(problem => problem.fixes?.length === 1).length;
+  }
+
+  for (const { file, fixed } of parsed) {
+    if (fixed) {
+      output.stderr(`Fixed ${fixed} problem${fixed === 1 ? '' : 's'} in ${relative(cwd, file) || file}`);
+    }
+  }
+
+  const fileLabel = `${parsed.length} file${parsed.length === 1 ? '' : 's'}`;
+  const fixable = fixableCount > 0 ? ` - ${fixableCount} fixable with --fix` : '';
+  output.stderr(`${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'} in ${fileLabel}${fixable}`);
+  return errorCount > 0 ? 1 : 0;
+}
+
+async function extractCommand(parsed: ParsedFile[], options: CliOptions, output: CliOutput, cwd: string): Promise<number> {
+  const records = new Map<string, { schema?: DataSchema; entries: DataEntry[] }>();
+
+  for (const { result } of parsed) {
+    for (const [schemaName, entries] of result.data) {
+      if (options.schema && schemaName !== options.schema) continue;
+      const group = records.get(schemaName) || { entries: [] };
+      const schema = group.schema || result.schemas.get(schemaName);
+      records.set(schemaName, { ...(schema && { schema }), entries: [...group.entries, ...entries] });
+    }
+  }
+
+  const failed = parsed.some(({ result }) => result.errors.length > 0);
+
+  if (options.out) {
+    const outDir = resolve(cwd, options.out);
+    await fs.mkdir(outDir, { recursive: true });
+    for (const [schemaName, group] of records) {
+      const text = options.format === 'csv'
+        ? toCsv(schemaName, group.entries, group.schema)
+        : `${JSON.stringify(group.entries.map(toRecord), null, 2)}\n`;
+      await fs.writeFile(join(outDir, `${schemaName}.${options.format}`), text);
+    }
+  } else if (options.format === 'csv') {
+    if (records.size > 1) {
+      output.stderr(`mdl-data: CSV output holds one schema - choose one of ${Array.from(records.keys()).join(', ')} with --schema, or use --out`);
+      return 2;
+    }
+    for (const [schemaName, group] of records) {
+      output.stdout(toCsv(schemaName, group.entries, group.schema).replace(/\r\n$/, ''));
+    }
+  } else {
+    const json: Record<string, Array<Record<string, unknown>>> = {};
+    for (const [schemaName, group] of records) {
+      json[schemaName] = group.entries.map(toRecord);
+    }
+    output.stdout(JSON.stringify(json, null, 2));
+  }
+
+  // Records are still written when some files have errors, but the run fails
+  return failed ? 1 : 0;
+}
+
+function schemasCommand(parsed: ParsedFile[], options: CliOptions, output: CliOutput, cwd: string): number {
+  const schemas = parsed.flatMap(({ file, result }) =>
+    Array.from(result.schemas.values()).map(schema => ({ file, schema }))
+  );
+
+  if (options.json) {
+    output.stdout(JSON.stringify(schemas.map(({ file, schema }) => ({
+      file: relative(cwd, file),
+      name: schema.name,
+      lineNumber: schema.lineNumber,
+      fields: schema.fields,
+      indexes: schema.indexes
+    })), null, 2));
+    return 0;
+  }
+
+  for (const { file, schema } of schemas) {
+    output.stdout(`${relative(cwd, file)}:${schema.lineNumber ?? 1}: ${schema.name} (${schema.fields.length} field${schema.fields.length === 1 ? '' : 's'})`);
+    for (const field of schema.fields) {
+      const details = [
+        field.type,
+        ...(field.required ? ['required'] : []),
+        ...(field.label ? [`"${field.label}"`] : [])
+      ];
+      output.stdout(`  ${field.name}: ${details.join(', ')}`);
+    }
+    for (const index of schema.indexes) {
+      output.stdout(`  index: ${index.name}`);
+    }
+  }
+
+  return 0;
+}
+
+function typesCommand(parsed: ParsedFile[], output: CliOutput): number {
+  const schemas = new Map<string, DataSchema>();
+  for (const { result } of parsed) {
+    for (const [name, schema] of result.schemas) {
+      // The first definition of a schema wins, matching how a document resolves names
+      if (!schemas.has(name)) schemas.set(name, schema);
+    }
+  }
+
+  try {
+    output.stdout(new TypeScriptGenerator().generate(schemas).trimEnd());
+  } catch (error) {
+    output.stderr(`mdl-data: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+  return 0;
+}
+
+function parseArguments(args: string[]): CliOptions {
+  const options: CliOptions = { files: [], format: 'json', json: false, warnings: true, fix: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] || '';
+    const next = () => {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`missing value for ${arg}`);
+      return value;
+    };
+
+    switch (arg) {
+      case '--format': {
+        const format = next();
+        if (format !== 'json' && format !== 'csv') {
+          throw new Error(`unsupported format '${format}' - expected json or csv`);
+        }
+        options.format = format;
+        break;
+      }
+      case '--schema':
+        options.schema = next();
+        break;
+      case '--out':
+        options.out = next();
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--no-warnings':
+        options.warnings = false;
+        break;
+      case '--fix':
+        options.fix = true;
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`unknown option '${arg}'`);
+        }
+        options.files.push(arg);
+    }
+  }
+
+  if (options.files.length === 0) {
+    throw new Error('no files given');
+  }
+
+  return options;
+}
+
+/**
+ * Problems validate reports for a file: its errors, and its warnings unless --no-warnings,
+ * leaving out those raised in the other documents it references
+ */
+function reportedProblems(file: string, result: ParseResult, options: CliOptions): Array<ParseError | ParseWarning> {
+  return [...result.errors, ...(options.warnings ? result.warnings : [])]
+    .filter(problem => !problem.sourceFile || resolve(problem.sourceFile) === file);
+}
+
+/**
+ * Write the file back with the fixes applyFixes() takes; returns the number of problems fixed
+ */
+async function fixFile(file: string, problems: Array<ParseError | ParseWarning>): Promise<number> {
+  if (!problems.some(problem => problem.fixes)) return 0;
+
+  const { text, fixed } = applyFixes(await fs.readFile(file, 'utf-8'), problems);
+  if (fixed > 0) await fs.writeFile(file, text);
+  return fixed;
+}
+
+/**
+ * file:line:col: severity type: message, using the file an error came from when it was another document
+ */
+function formatDiagnostic(file: string, diagnostic: ParseError | ParseWarning, severity: 'error' | 'warning', cwd: string): string {
+  const source = relative(cwd, diagnostic.sourceFile || file) || file;
+  const line = diagnostic.lineNumber ?? 1;
+  const column = diagnostic.columnNumber ?? 1;
+  const type = 'type' in diagnostic ? ` ${diagnostic.type}` : '';
+  return `${source}:${line}:${column}: ${severity}${type}: ${diagnostic.message}`;
+}
+
+function toRecord(entry: DataEntry): Record<string, unknown> {
+  return Object.fromEntries(entry.fields);
+}
+
+/**
+ * Records as CSV with field names and source text; records of schemas defined
+ * elsewhere are written with the fields they hold, as text
+ */
+function toCsv(schemaName: string, entries: DataEntry[], schema?: DataSchema): string {
+  const present = new Set(entries.flatMap(entry => Array.from(entry.fields.keys())));
+  const csvSchema: DataSchema = schema || {
+    name: schemaName,
+    fields: Array.from(present, name => ({ name, type: DataType.TEXT })),
+    indexes: []
+  };
+  return new CsvConverter().exportCsv(entries, csvSchema, { headers: 'name', formatted: false });
+}
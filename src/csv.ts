@@ -0,0 +1,259 @@
+import {
+  CsvExportOptions,
+  CsvImportOptions,
+  CsvImportResult,
+  DataBlock,
+  DataEntry,
+  DataSchema,
+  DataType,
+  ErrorType,
+  FieldDefinition,
+  ParseError
+} from './types.js';
+import { MarkdownDataFormatter } from './formatter.js';
+import { DataTypeConverter } from './data-types.js';
+import { MarkdownDataSerializer } from './serializer.js';
+import { RecordValidator } from './validation/records.js';
+import { formatDateWithFormat, isDatePattern, parseDateWithFormat } from './date-format.js';
+
+/**
+ * Converts data blocks to RFC 4180 CSV (or TSV) and CSV files back to `!? data` blocks
+ */
+export class CsvConverter {
+  private formatter: MarkdownDataFormatter;
+  private dataTypeConverter: DataTypeConverter;
+  private serializer: MarkdownDataSerializer;
+  private recordValidator: RecordValidator;
+
+  constructor(formatter?: MarkdownDataFormatter) {
+    this.formatter = formatter || new MarkdownDataFormatter();
+    this.dataTypeConverter = new DataTypeConverter();
+    this.serializer = new MarkdownDataSerializer();
+    this.recordValidator = new RecordValidator();
+  }
+
+  /**
+   * Write a data block, or all records of a schema, as CSV
+   * Headers use field labels and values use each field's display format by default
+   */
+  exportCsv(source: DataBlock | DataEntry[], schema: DataSchema, options: CsvExportOptions = {}): string {
+    const entries = Array.isArray(source) ? source : source.records;
+    const delimiter = this.getDelimiter(options.delimiter);
+    const useLabels = (options.headers || 'label') === 'label';
+    const formatted = options.formatted !== false;
+
+    const header = schema.fields.map(field => useLabels && field.label ? field.label : field.name);
+    const rows = entries.map(entry => schema.fields.map(field => {
+      const raw = entry.rawFields?.has(field.name) ? entry.rawFields.get(field.name) : entry.fields.get(field.name);
+      return formatted ? this.toDisplayText(raw, field) : this.serializer.serializeValue(raw, field) ?? '';
+    }));
+
+    return [header, ...rows]
+      .map(row => row.map(cell => this.quoteCell(cell, delimiter)).join(delimiter))
+      .join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Read CSV into a `!? data` table block for a schema, validating every row
+   * Headers may be field names or labels; display-formatted dates and numbers are
+   * converted back to the field's input form
+   */
+  importCsv(csv: string, schema: DataSchema, options: CsvImportOptions = {}): CsvImportResult {
+    const errors: ParseError[] = [];
+    const { rows, lines } = this.parseRows(csv, this.getDelimiter(options.delimiter), errors, schema.name);
+    const [header, ...body] = rows;
+
+    if (!header) {
+      errors.push({
+        type: ErrorType.SYNTAX_ERROR,
+        message: 'CSV input has no header row',
+        schemaName: schema.name
+      });
+      return { markdown: '', entries: [], errors };
+    }
+
+    const columns = header.map((title, i) => {
+      const field = this.findField(schema, title.trim());
+      if (!field) {
+        errors.push({
+          type: ErrorType.INVALID_FIELD_NAME,
+          message: `CSV column '${title}' does not match any field name or label in schema '${schema.name}'`,
+          schemaName: schema.name,
+          lineNumber: 1,
+          columnNumber: i + 1
+        });
+      }
+      return field;
+    });
+
+    const entries: DataEntry[] = body.map((cells, rowIndex) => {
+      const fields = new Map<string, unknown>();
+      columns.forEach((field, i) => {
+        if (!field) return;
+        const text = (cells[i] ?? '').trim();
+        fields.set(field.name, text === '' ? null : this.toInputText(text, field));
+      });
+
+      const lineNumber = lines[rowIndex + 1] ?? rowIndex + 2;
+      return {
+        schemaName: schema.name,
+        fields,
+        lineNumber,
+        recordIndex: rowIndex,
+        recordNumber: rowIndex + 1
+      };
+    });
+
+    errors.push(...this.recordValidator.validateRecords(entries, schema));
+
+    // Table cells cannot hold text the tokenizer reads as table syntax or a header
+    for (const entry of entries) {
+      for (const [name, value] of entry.fields) {
+        if (typeof value === 'string' && /[\r\n]/.test(value)) {
+          errors.push({
+            type: ErrorType.INVALID_TABLE_SYNTAX,
+            message: `Value for field '${name}' contains a line break - it was joined onto one line`,
+            schemaName: schema.name,
+            ...(entry.lineNumber !== undefined && { lineNumber: entry.lineNumber }),
+            ...(entry.recordNumber !== undefined && { recordNumber: entry.recordNumber })
+          });
+          entry.fields.set(name, value.replace(/\s*[\r\n]+\s*/g, ' '));
+        }
+        if (typeof value === 'string' && /[|!]/.test(value)) {
+          errors.push({
+            type: ErrorType.INVALID_TABLE_SYNTAX,
+            message: `Value for field '${name}' contains '|' or '!' and cannot be written to a table cell - the block uses freeform layout`,
+            schemaName: schema.name,
+            ...(entry.lineNumber !== undefined && { lineNumber: entry.lineNumber }),
+            ...(entry.recordNumber !== undefined && { recordNumber: entry.recordNumber })
+          });
+        }
+      }
+    }
+
+    const markdown = this.serializer.serializeData(schema.name, entries, schema);
+    return { markdown, entries, errors };
+  }
+
+  private toDisplayText(value: unknown, field: FieldDefinition): string {
+    if (value === null || value === undefined || String(value).trim() === '') return '';
+    // Unformatted fields keep their text; formatting would only risk changing it
+    if (!field.format) return this.serializer.serializeValue(value, field) ?? '';
+
+    const typed = this.dataTypeConverter.convertTypedValue(value, field);
+    const result = this.formatter.formatValue(typed, field);
+    return result.displayFormatted ?? result.formatted;
+  }
+
+  /**
+   * Undo display formatting so the value reads as the field's input form
+   */
+  private toInputText(text: string, field: FieldDefinition): string {
+    if (field.type === DataType.DATE && field.format && typeof field.format === 'object') {
+      const { input, display } = field.format;
+      if (isDatePattern(input) && isDatePattern(display) && !parseDateWithFormat(text, input)) {
+        const parts = parseDateWithFormat(text, display);
+        if (parts) return formatDateWithFormat(parts, input);
+      }
+    }
+
+    if (field.type === DataType.NUMBER && field.format) {
+      const parsed = this.formatter.parseValue(text, field);
+      if (typeof parsed === 'number') return String(parsed);
+    }
+
+    return text;
+  }
+
+  private findField(schema: DataSchema, title: string): FieldDefinition | undefined {
+    return schema.fields.find(field => field.name === title) ||
+      schema.fields.find(field => field.label?.trim().toLowerCase() === title.toLowerCase());
+  }
+
+  /**
+   * Cells are split one character at a time, so longer delimiters could never match
+   */
+  private getDelimiter(delimiter: string | undefined): string {
+    if (delimiter === undefined) return ',';
+    if (delimiter.length !== 1) {
+      throw new Error(`CSV delimiter must be a single character, got '${delimiter}'`);
+    }
+    return delimiter;
+  }
+
+  private quoteCell(cell: string, delimiter: string): string {
+    return cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }
+
+  /**
+   * Split RFC 4180 text into rows, tracking the line each row starts on
+   */
+  private parseRows(
+    csv: string,
+    delimiter: string,
+    errors: ParseError[],
+    schemaName: string
+  ): { rows: string[][]; lines: number[] } {
+    const rows: string[][] = [];
+    const lines: number[] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+    const text = csv.replace(/^\uFEFF/, '');
+
+    const endRow = () => {
+      row.push(cell);
+      // Skip blank lines rather than reading them as empty records
+      if (row.length > 1 || row[0] !== '') {
+        rows.push(row);
+        lines.push(rowLine);
+      }
+      row = [];
+      cell = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charAt(i);
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n') line++;
+          cell += char;
+        }
+      } else if (char === '"' && cell === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        endRow();
+        line++;
+        rowLine = line;
+      } else {
+        cell += char;
+      }
+    }
+
+    if (inQuotes) {
+      errors.push({
+        type: ErrorType.UNCLOSED_LITERAL,
+        message: 'Unclosed quoted value in CSV input',
+        schemaName,
+        lineNumber: rowLine
+      });
+    }
+    if (cell !== '' || row.length > 0) {
+      endRow();
+    }
+
+    return { rows, lines };
+  }
+}
@@ -1,4 +1,5 @@
-import { DataType, FieldDefinition } from './types.js';
+import { DataEntry, DataSchema, DataType, FieldDefinition } from './types.js';
+import { getInputDateFormat, isDatePattern, parseDateWithFormat, toIsoDate, toLocalDate } from './date-format.js';
 
 export class DataTypeConverter {
   
@@ -26,6 +27,50 @@ export class DataTypeConverter {
     }
   }
 
+  /**
+   * Convert a raw value to its native type: numbers, booleans, and Date objects
+   * for dates and times. Values that cannot be converted are returned unchanged
+   */
+  convertTypedValue(value: unknown, field: FieldDefinition): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    const stringValue = String(value).trim();
+
+    switch (field.type) {
+      case DataType.NUMBER:
+        return this.convertNumberValue(stringValue, field);
+      case DataType.BOOLEAN:
+        return this.convertBooleanValue(stringValue, field);
+      case DataType.DATE:
+        return this.parseDate(stringValue, field) ?? value;
+      case DataType.TIME:
+        return this.parseTime(stringValue) ?? value;
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Convert a record to a plain object of typed values, reading the original
+   * text when the parse already typed them. Empty values are left out
+   */
+  convertRecord(entry: DataEntry, schema?: DataSchema): Record<string, unknown> {
+    const fields = new Map((schema?.fields ?? []).map(field => [field.name, field]));
+    const record: Record<string, unknown> = {};
+
+    for (const [name, value] of entry.fields) {
+      const raw = entry.rawFields?.has(name) ? entry.rawFields.get(name) : value;
+      if (raw === null || raw === undefined || String(raw).trim() === '') continue;
+
+      const field = fields.get(name);
+      record[name] = field ? this.convertTypedValue(raw, field) : raw;
+    }
+
+    return record;
+  }
+
   private convertTextValue(value: string, field: FieldDefinition): string {
     if (field.format && typeof field.format === 'string') {
       const format = field.format.toLowerCase();
@@ -47,16 +92,23 @@ export class DataTypeConverter {
     return value;
   }
 
-  private convertNumberValue(value: string, _field: FieldDefinition): number {
+  private convertNumberValue(value: string, _field: FieldDefinition): number | string {
     // Remove common formatting characters
     const cleaned = value.replace(/[$,\s%]/g, '');
     const parsed = parseFloat(cleaned);
-    return isNaN(parsed) ? 0 : parsed;
+    // Leave unparseable input as-is rather than inventing a number
+    return isNaN(parsed) ? value : parsed;
   }
 
-  private convertDateValue(value: string, _field: FieldDefinition): string {
-    // For now, just return the string value
-    // The renderer can handle date parsing and formatting
+  private convertDateValue(value: string, field: FieldDefinition): string {
+    // Dates read with a declared pattern are normalized to ISO 8601
+    const format = getInputDateFormat(field.format);
+    if (isDatePattern(format)) {
+      const parts = parseDateWithFormat(value, format);
+      return parts ? toIsoDate(parts) : value;
+    }
+
+    // Otherwise leave the string for the renderer to parse and format
     return value;
   }
 
@@ -66,7 +118,7 @@ export class DataTypeConverter {
     return value;
   }
 
-  private convertBooleanValue(value: string, _field: FieldDefinition): boolean {
+  private convertBooleanValue(value: string, _field: FieldDefinition): boolean | string {
     const normalized = value.toLowerCase().trim();
     
     // Accept various boolean representations
@@ -84,9 +136,48 @@ export class DataTypeConverter {
       case 'off':
         return false;
       default:
-        // Default to false for any other value
-        return false;
+        // Leave unrecognised input as-is rather than defaulting to false
+        return value;
+    }
+  }
+
+  private parseDate(value: string, field: FieldDefinition): Date | null {
+    // A declared pattern is authoritative: no guessing between interpretations
+    const format = getInputDateFormat(field.format);
+    if (isDatePattern(format)) {
+      const parts = parseDateWithFormat(value, format);
+      return parts ? toLocalDate(parts) : null;
     }
+
+    // Numeric year-first dates are read as local calendar dates
+    const isoMatch = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+    if (isoMatch) {
+      const [year, month, day] = isoMatch.slice(1).map(Number) as [number, number, number];
+      const date = toLocalDate({ year, month, day });
+      return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+    }
+
+    const timestamp = Date.parse(value);
+    return isNaN(timestamp) ? null : new Date(timestamp);
+  }
+
+  private parseTime(value: string): Date | null {
+    // Accepts the times TypeValidator does: 24-hour, or 1-12 with AM/PM
+    const match = value.trim().match(/^(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?\s*(AM|PM|am|pm)?$/);
+    if (!match) return null;
+
+    let hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    const seconds = Number(match[3] || 0);
+    const period = match[4]?.toLowerCase();
+
+    if (period && (hours < 1 || hours > 12)) return null;
+
+    if (period === 'pm' && hours !== 12) hours += 12;
+    if (period === 'am' && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+    return new Date(2000, 0, 1, hours, minutes, seconds);
   }
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,215 @@
+import { DualFormat } from './types.js';
+
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+// Longest tokens first so YYYY is not read as two YY tokens
+const DATE_TOKENS = ['YYYY', 'YY', 'MMMM', 'MMM', 'MM', 'M', 'DD', 'D'];
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  YY: '(\\d{2})',
+  MMMM: '([A-Za-z]+)',
+  MMM: '([A-Za-z]{3})',
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  DD: '(\\d{2})',
+  D: '(\\d{1,2})'
+};
+
+/**
+ * Get the pattern used to read input dates: the input half of a dual format
+ */
+export function getInputDateFormat(format: string | DualFormat | undefined): string | undefined {
+  if (!format) return undefined;
+  return typeof format === 'string' ? format : format.input;
+}
+
+/**
+ * Check whether a format string is a date pattern the strict parser understands:
+ * it must contain year, month and day tokens and no other letters
+ */
+export function isDatePattern(format: string | undefined): format is string {
+  if (!format) return false;
+  const tokens = splitDatePattern(format);
+  const names = tokens.filter(t => t.token).map(t => t.token as string);
+  const hasLetterLiteral = tokens.some(t => !t.token && /[A-Za-z]/.test(t.literal));
+
+  return !hasLetterLiteral &&
+    names.some(n => n.startsWith('Y')) &&
+    names.some(n => n.startsWith('M')) &&
+    names.some(n => n.startsWith('D'));
+}
+
+/**
+ * Parse a date strictly against a pattern such as "DD/MM/YYYY" or "MMM D, YYYY"
+ * Returns null when the value does not match the pattern or is not a real date
+ */
+export function parseDateWithFormat(value: string, format: string): DateParts | null {
+  const tokens = splitDatePattern(format);
+  const order: string[] = [];
+  let source = '^';
+
+  for (const part of tokens) {
+    if (part.token) {
+      order.push(part.token);
+      source += TOKEN_PATTERNS[part.token];
+    } else {
+      source += part.literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const match = value.trim().match(new RegExp(source + '$'));
+  if (!match) return null;
+
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  for (let i = 0; i < order.length; i++) {
+    const text = match[i + 1] || '';
+    switch (order[i]) {
+      case 'YYYY':
+        year = Number(text);
+        break;
+      case 'YY':
+        year = 2000 + Number(text);
+        break;
+      case 'MMMM':
+        month = MONTH_NAMES.indexOf(text.toLowerCase()) + 1;
+        break;
+      case 'MMM':
+        month = MONTH_NAMES.findIndex(name => name.startsWith(text.toLowerCase())) + 1;
+        break;
+      case 'MM':
+      case 'M':
+        month = Number(text);
+        break;
+      case 'DD':
+      case 'D':
+        day = Number(text);
+        break;
+    }
+  }
+
+  if (year === undefined || month === undefined || day === undefined) return null;
+  return isRealDate(year, month, day) ? { year, month, day } : null;
+}
+
+/**
+ * Check whether a numeric date reads differently as day/month and month/day
+ */
+export function isAmbiguousDate(value: string): boolean {
+  const match = value.trim().match(/^(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{2,4})$/);
+  if (!match) return false;
+
+  const first = Number(match[1]);
+  const second = Number(match[2]);
+  return first !== second && first <= 12 && second <= 12;
+}
+
+/**
+ * Format date parts as an ISO 8601 calendar date (YYYY-MM-DD)
+ */
+export function toIsoDate(parts: DateParts): string {
+  return [
+    String(parts.year).padStart(4, '0'),
+    String(parts.month).padStart(2, '0'),
+    String(parts.day).padStart(2, '0')
+  ].join('-');
+}
+
+/**
+ * Read a date written in a field's pattern or in ISO form (YYYY-MM-DD)
+ * Fields without a pattern also take any form Date.parse reads, as a local calendar date
+ */
+export function readDate(value: string, format: string | undefined): DateParts | null {
+  const parts = (isDatePattern(format) && parseDateWithFormat(value, format)) || parseDateWithFormat(value, 'YYYY-MM-DD');
+  if (parts || isDatePattern(format)) return parts;
+
+  const timestamp = Date.parse(value);
+  if (isNaN(timestamp)) return null;
+  const date = new Date(timestamp);
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+/**
+ * Time of midnight UTC on a date, so dates read from any form compare alike
+ */
+export function toDateTime(parts: DateParts): number {
+  const date = new Date(0);
+  date.setUTCFullYear(parts.year, parts.month - 1, parts.day);
+  return date.getTime();
+}
+
+/**
+ * Local midnight on a date, keeping years 0-99 as written
+ */
+export function toLocalDate(parts: DateParts): Date {
+  const date = new Date(0);
+  date.setFullYear(parts.year, parts.month - 1, parts.day);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+/**
+ * Write date parts using a pattern accepted by parseDateWithFormat
+ */
+export function formatDateWithFormat(parts: DateParts, format: string): string {
+  return splitDatePattern(format).map(part => {
+    const monthName = MONTH_NAMES[parts.month - 1] || '';
+    switch (part.token) {
+      case 'YYYY':
+        return String(parts.year).padStart(4, '0');
+      case 'YY':
+        return String(parts.year % 100).padStart(2, '0');
+      case 'MMMM':
+        return monthName.charAt(0).toUpperCase() + monthName.slice(1);
+      case 'MMM':
+        return monthName.charAt(0).toUpperCase() + monthName.slice(1, 3);
+      case 'MM':
+        return String(parts.month).padStart(2, '0');
+      case 'M':
+        return String(parts.month);
+      case 'DD':
+        return String(parts.day).padStart(2, '0');
+      case 'D':
+        return String(parts.day);
+      default:
+        return part.literal;
+    }
+  }).join('');
+}
+
+function isRealDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  // setUTCFullYear keeps years 0-99 as written, where the Date constructor maps them to 1900-1999
+  const date = new Date(toDateTime({ year, month, day }));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function splitDatePattern(format: string): Array<{ token?: string; literal: string }> {
+  const parts: Array<{ token?: string; literal: string }> = [];
+  let i = 0;
+
+  while (i < format.length) {
+    const token = DATE_TOKENS.find(t => format.startsWith(t, i));
+    if (token) {
+      parts.push({ token, literal: token });
+      i += token.length;
+    } else {
+      parts.push({ literal: format.charAt(i) });
+      i++;
+    }
+  }
+
+  return parts;
+}
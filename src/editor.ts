@@ -0,0 +1,501 @@
+import { DataSchema, FieldDefinition, ParseError, ParseWarning, TextEdit, Token, TokenType } from './types.js';
+import { Tokenizer } from './tokenizer.js';
+import { MarkdownDataExtensionParser } from './parser.js';
+import { MarkdownDataSerializer } from './serializer.js';
+
+interface DocumentBlock {
+  blockNumber: number;
+  type: 'datadef' | 'data';
+  schemaName: string;
+  start: Token;
+  end?: Token;
+  tokens: Token[];
+}
+
+interface LocatedRecord {
+  // Table row token, or the field value tokens of a freeform record
+  row?: Token;
+  fieldTokens: Token[];
+  // Separator line preceding a freeform record
+  separator?: Token;
+}
+
+/**
+ * Lossless in-place editing of Markdown Data Extension documents
+ * Each change is computed as minimal text edits against the current text,
+ * leaving prose, comments, alignment and untouched blocks as they were
+ */
+export class MarkdownDataEditor {
+  private text: string;
+  // Line ending of inserted lines, taken from the document's first line
+  private eol: string;
+  private serializer: MarkdownDataSerializer;
+  private parser: MarkdownDataExtensionParser;
+
+  constructor(markdown: string) {
+    this.text = markdown;
+    this.eol = markdown.match(/\r?\n/)?.[0] ?? '\n';
+    this.serializer = new MarkdownDataSerializer();
+    this.parser = new MarkdownDataExtensionParser();
+  }
+
+  /**
+   * The document text with all edits so far applied
+   */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Change field values of one record; null clears a value
+   * Returns the edits made, as offsets into the text before the change
+   */
+  updateRecord(blockNumber: number, recordIndex: number, changes: Record<string, unknown>): TextEdit[] {
+    const block = this.getDataBlock(blockNumber);
+    const schema = this.getSchemaDefinition(block.schemaName);
+    const record = this.locateRecord(block, recordIndex);
+    const edits: TextEdit[] = [];
+
+    for (const [fieldName, value] of Object.entries(changes)) {
+      this.checkField(schema, fieldName);
+      const valueText = this.toValueText(value, schema, fieldName, record.row !== undefined);
+
+      const edit = record.row
+        ? this.editTableCell(block, record.row, fieldName, valueText)
+        : this.editFreeformField(record, fieldName, valueText);
+      if (edit) edits.push(edit);
+    }
+
+    return this.applyEdits(edits);
+  }
+
+  /**
+   * Add a record to a data block, at `atIndex` or after the last record
+   */
+  insertRecord(blockNumber: number, values: Record<string, unknown>, atIndex?: number): TextEdit[] {
+    const block = this.getDataBlock(blockNumber);
+    const schema = this.getSchemaDefinition(block.schemaName);
+    const records = this.getRecords(block);
+    const header = block.tokens.find(t => t.type === TokenType.TABLE_HEADER);
+    const index = atIndex === undefined ? records.length : atIndex;
+
+    if (index < 0 || index > records.length) {
+      throw new Error(`Record index ${index} is out of range for block ${blockNumber} (${records.length} records)`);
+    }
+    for (const fieldName of Object.keys(values)) {
+      this.checkField(schema, fieldName);
+    }
+
+    const before = records[index];
+    let edit: TextEdit;
+
+    if (header) {
+      const columns = this.getTableColumns(header);
+      const widths = this.getCellRanges(header).map(range => range.end - range.start);
+      const cells = columns.map(column =>
+        this.toValueText(values[column] ?? null, schema, column, true) ?? ''
+      );
+      const unknown = Object.keys(values).filter(name => !columns.includes(name));
+      if (unknown.length > 0) {
+        throw new Error(`Field '${unknown[0]}' is not a column of block ${blockNumber} - add it with addField first`);
+      }
+
+      const row = `|${cells.map((cell, i) => this.padCell(cell, widths[i] ?? 0)).join('|')}|`;
+      const anchor = before?.row ?? this.getLastRowToken(block) ?? header;
+      const offset = before ? this.lineStart(anchor.position.offset) : this.lineEnd(anchor.position.offset) + 1;
+      edit = this.insertLines(offset, [row]);
+    } else {
+      const lines = Object.entries(values).map(([name, value]) =>
+        this.freeformLine(name, this.toValueText(value, schema, name, false))
+      );
+
+      if (before) {
+        const first = before.fieldTokens[0]!;
+        edit = this.insertLines(this.lineStart(first.position.offset), [...lines, '!-']);
+      } else {
+        const last = records[records.length - 1]?.fieldTokens;
+        const lastToken = last?.[last.length - 1];
+        const offset = lastToken ? this.lineEnd(lastToken.position.offset) + 1 : this.lineStart(block.end!.position.offset);
+        edit = this.insertLines(offset, lastToken ? ['!-', ...lines] : lines);
+      }
+    }
+
+    return this.applyEdits([edit]);
+  }
+
+  /**
+   * Remove a record from a data block, along with one adjoining record separator
+   */
+  deleteRecord(blockNumber: number, recordIndex: number): TextEdit[] {
+    const block = this.getDataBlock(blockNumber);
+    const record = this.locateRecord(block, recordIndex);
+
+    if (record.row) {
+      return this.applyEdits([this.deleteLines(record.row, record.row)]);
+    }
+
+    const first = record.fieldTokens[0]!;
+    const last = record.fieldTokens[record.fieldTokens.length - 1]!;
+    const following = this.getRecords(block)[recordIndex + 1]?.separator;
+
+    if (record.separator) {
+      return this.applyEdits([this.deleteLines(record.separator, last)]);
+    }
+    return this.applyEdits([this.deleteLines(first, following ?? last)]);
+  }
+
+  /**
+   * Add a field to a schema definition and a column to each table block using it
+   * Freeform records gain a field line only when a default value is given
+   */
+  addField(schemaName: string, field: FieldDefinition, defaultValue?: unknown): TextEdit[] {
+    const blocks = this.getBlocks();
+    const definition = blocks.find(b => b.type === 'datadef' && b.schemaName === schemaName);
+
+    if (!definition?.end) {
+      throw new Error(`No schema definition block found for '${schemaName}'`);
+    }
+
+    const schema = this.getSchemaDefinition(schemaName);
+    if (schema?.fields.some(f => f.name === field.name)) {
+      throw new Error(`Field '${field.name}' already exists in schema '${schemaName}'`);
+    }
+
+    // New definition goes after the last field line, ahead of any index lines
+    const fieldLines = definition.tokens.filter(t => t.type === TokenType.FIELD_NAME);
+    const anchor = fieldLines[fieldLines.length - 1];
+    const offset = anchor ? this.lineEnd(anchor.position.offset) + 1 : this.lineStart(definition.end.position.offset);
+    const edits = [this.insertLines(offset, [`!fname: ${this.serializer.serializeField(field)}`])];
+
+    const schemaWithField: DataSchema = {
+      name: schemaName,
+      fields: [...(schema?.fields ?? []), field],
+      indexes: []
+    };
+
+    for (const block of blocks) {
+      if (block.type !== 'data' || block.schemaName !== schemaName) continue;
+      const header = block.tokens.find(t => t.type === TokenType.TABLE_HEADER);
+
+      if (header) {
+        const valueText = this.toValueText(defaultValue ?? null, schemaWithField, field.name, true) ?? '';
+        edits.push(...this.appendColumn(block, header, field.name, valueText));
+      } else if (defaultValue !== undefined && defaultValue !== null) {
+        const line = this.freeformLine(field.name, this.toValueText(defaultValue, schemaWithField, field.name, false));
+        for (const record of this.getRecords(block)) {
+          const last = record.fieldTokens[record.fieldTokens.length - 1]!;
+          edits.push(this.insertLines(this.lineEnd(last.position.offset) + 1, [line]));
+        }
+      }
+    }
+
+    return this.applyEdits(edits);
+  }
+
+  private editTableCell(block: DocumentBlock, row: Token, fieldName: string, valueText: string | null): TextEdit | null {
+    const header = block.tokens.find(t => t.type === TokenType.TABLE_HEADER)!;
+    const column = this.getTableColumns(header).indexOf(fieldName);
+
+    if (column === -1) {
+      throw new Error(`Field '${fieldName}' is not a column of block ${block.blockNumber} - add it with addField first`);
+    }
+
+    const cells = this.getCellRanges(row);
+    const cell = cells[column];
+    const content = valueText ?? '';
+
+    if (!cell) {
+      // Trailing cells may be omitted; write the missing ones before the new value
+      const padding = ' |'.repeat(column - cells.length);
+      const end = row.position.offset + row.value.trimEnd().length;
+      return { start: end, end, newText: `${padding} ${content} |` };
+    }
+
+    const current = this.text.slice(cell.start, cell.end);
+    if (current.trim() === content) return null;
+
+    return { start: cell.start, end: cell.end, newText: this.padCell(content, cell.end - cell.start) };
+  }
+
+  private editFreeformField(record: LocatedRecord, fieldName: string, valueText: string | null): TextEdit | null {
+    const token = record.fieldTokens.find(t => this.getFreeformName(t) === fieldName);
+
+    if (!token) {
+      if (valueText === null) return null;
+      const last = record.fieldTokens[record.fieldTokens.length - 1]!;
+      const offset = this.lineEnd(last.position.offset) + 1;
+      return this.insertLines(offset, [this.freeformLine(fieldName, valueText)], this.getIndent(last));
+    }
+
+    const nameEnd = token.position.offset + 1 + fieldName.length;
+    const lineText = this.text.slice(nameEnd, this.lineEnd(token.position.offset));
+    const valueEnd = nameEnd + lineText.trimEnd().length;
+    const match = lineText.match(/^\s*(:\s*)?/);
+    const valueStart = nameEnd + (match?.[0].length ?? 0);
+    const hasColon = match?.[1] !== undefined;
+
+    if (this.text.slice(valueStart, valueEnd) === (valueText ?? '')) return null;
+
+    if (valueText === null) {
+      return { start: nameEnd, end: valueEnd, newText: '' };
+    }
+    if (valueStart === nameEnd || (!hasColon && valueText.includes(':'))) {
+      // No separator to keep, or the value now needs the "name: value" form
+      return { start: nameEnd, end: valueEnd, newText: this.freeformLine(fieldName, valueText).slice(1 + fieldName.length) };
+    }
+    return { start: valueStart, end: valueEnd, newText: valueText };
+  }
+
+  private appendColumn(block: DocumentBlock, header: Token, fieldName: string, valueText: string): TextEdit[] {
+    const columnCount = this.getCellRanges(header).length;
+    const width = Math.max(fieldName.length + 1, valueText.length, 3) + 2;
+
+    // Rows with omitted trailing cells get empty ones so the new cell lands in its column
+    const append = (token: Token, cell: string): TextEdit => {
+      const end = token.position.offset + token.value.trimEnd().length;
+      const padding = ' |'.repeat(Math.max(0, columnCount - this.getCellRanges(token).length));
+      return { start: end, end, newText: `${padding}${cell}|` };
+    };
+
+    const edits = [append(header, this.padCell(`!${fieldName}`, width))];
+    for (const token of block.tokens) {
+      if (token.type !== TokenType.TABLE_ROW) continue;
+      edits.push(append(token, this.isSeparatorRow(token) ? '-'.repeat(width) : this.padCell(valueText, width)));
+    }
+
+    return edits;
+  }
+
+  private getBlocks(): DocumentBlock[] {
+    const { tokens } = new Tokenizer(this.text).tokenize();
+    const blocks: DocumentBlock[] = [];
+    let current: DocumentBlock | undefined;
+    let blockCounter = 0;
+
+    // Numbered the same way as the parser: each opened datadef or data block
+    for (const token of tokens) {
+      if (token.type === TokenType.BLOCK_START) {
+        const parts = token.value.trim().split(/\s+/);
+        const type = parts[0];
+        if (current || parts.length < 2 || (type !== 'datadef' && type !== 'data')) continue;
+
+        const name = parts.slice(1).join(' ');
+        const external = name.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
+        blockCounter++;
+        current = {
+          blockNumber: blockCounter,
+          type,
+          schemaName: external?.[1] ?? name,
+          start: token,
+          tokens: []
+        };
+        blocks.push(current);
+      } else if (token.type === TokenType.BLOCK_END && current) {
+        current.end = token;
+        current = undefined;
+      } else if (current) {
+        current.tokens.push(token);
+      }
+    }
+
+    return blocks;
+  }
+
+  private getDataBlock(blockNumber: number): DocumentBlock {
+    const block = this.getBlocks().find(b => b.blockNumber === blockNumber);
+
+    if (!block || block.type !== 'data') {
+      throw new Error(`Block ${blockNumber} is not a data block`);
+    }
+    if (!block.end) {
+      throw new Error(`Block ${blockNumber} is not closed`);
+    }
+    return block;
+  }
+
+  private getRecords(block: DocumentBlock): LocatedRecord[] {
+    const records: LocatedRecord[] = [];
+    const header = block.tokens.find(t => t.type === TokenType.TABLE_HEADER);
+
+    if (header) {
+      for (const token of block.tokens) {
+        if (token.type === TokenType.TABLE_ROW && !this.isSeparatorRow(token)) {
+          records.push({ row: token, fieldTokens: [] });
+        }
+      }
+      return records;
+    }
+
+    // Freeform records are the field lines between separators; empty records are skipped
+    let current: LocatedRecord = { fieldTokens: [] };
+    for (const token of block.tokens) {
+      if (token.type === TokenType.FIELD_VALUE) {
+        current.fieldTokens.push(token);
+      } else if (token.type === TokenType.RECORD_SEPARATOR && current.fieldTokens.length > 0) {
+        records.push(current);
+        current = { fieldTokens: [], separator: token };
+      }
+    }
+    if (current.fieldTokens.length > 0) {
+      records.push(current);
+    }
+
+    return records;
+  }
+
+  private locateRecord(block: DocumentBlock, recordIndex: number): LocatedRecord {
+    const records = this.getRecords(block);
+    const record = records[recordIndex];
+
+    if (!record) {
+      throw new Error(`Record ${recordIndex} does not exist in block ${block.blockNumber} (${records.length} records)`);
+    }
+    return record;
+  }
+
+  private getSchemaDefinition(schemaName: string): DataSchema | undefined {
+    return this.parser.parse(this.text, { validateData: false, loadExternalSchemas: false }).schemas.get(schemaName);
+  }
+
+  private checkField(schema: DataSchema | undefined, fieldName: string): void {
+    // Schemas loaded from other files are not known here, so their fields are not checked
+    if (schema && !schema.fields.some(f => f.name === fieldName)) {
+      throw new Error(`Field '${fieldName}' does not exist in schema '${schema.name}'`);
+    }
+  }
+
+  private toValueText(value: unknown, schema: DataSchema | undefined, fieldName: string, inTable: boolean): string | null {
+    const field = schema?.fields.find(f => f.name === fieldName);
+    const text = this.serializer.serializeValue(value, field);
+
+    if (text !== null && /[\r\n]/.test(text)) {
+      throw new Error(`Value for field '${fieldName}' contains a line break and cannot be written`);
+    }
+    if (text !== null && inTable && /[|!]/.test(text)) {
+      throw new Error(`Value for field '${fieldName}' contains '|' or '!' and cannot be written to a table cell`);
+    }
+    return text === '' ? null : text;
+  }
+
+  private getTableColumns(header: Token): string[] {
+    return this.getCellRanges(header).map(range => this.text.slice(range.start, range.end).trim().replace(/^!/, ''));
+  }
+
+  /**
+   * Offsets of the text between each pair of pipes in a table line
+   */
+  private getCellRanges(token: Token): Array<{ start: number; end: number }> {
+    const line = token.value.trimEnd();
+    const ranges: Array<{ start: number; end: number }> = [];
+    let previous = line.indexOf('|');
+
+    for (let i = previous + 1; i < line.length; i++) {
+      if (line[i] === '|') {
+        ranges.push({ start: token.position.offset + previous + 1, end: token.position.offset + i });
+        previous = i;
+      }
+    }
+
+    return ranges;
+  }
+
+  private getLastRowToken(block: DocumentBlock): Token | undefined {
+    const rows = block.tokens.filter(t => t.type === TokenType.TABLE_ROW);
+    return rows[rows.length - 1];
+  }
+
+  private isSeparatorRow(token: Token): boolean {
+    return /^\|\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|$/.test(token.value.trim());
+  }
+
+  private getFreeformName(token: Token): string {
+    return token.value.split(/[\s:]/)[0] || '';
+  }
+
+  /**
+   * Cell text padded to the existing cell width when it fits, keeping columns aligned
+   */
+  private padCell(content: string, width: number): string {
+    return ` ${content.padEnd(Math.max(0, width - 2))} `;
+  }
+
+  private freeformLine(fieldName: string, valueText: string | null): string {
+    if (valueText === null) return `!${fieldName}`;
+    // "name: value" keeps values containing colons intact
+    return valueText.includes(':') ? `!${fieldName}: ${valueText}` : `!${fieldName} ${valueText}`;
+  }
+
+  private getIndent(token: Token): string {
+    return this.text.slice(this.lineStart(token.position.offset), token.position.offset);
+  }
+
+  private insertLines(offset: number, lines: string[], indent: string = ''): TextEdit {
+    // Inserting at the very end of a file without a trailing newline needs one first
+    const prefix = offset > this.text.length ? this.eol : '';
+    const start = Math.min(offset, this.text.length);
+    return { start, end: start, newText: prefix + lines.map(line => `${indent}${line}${this.eol}`).join('') };
+  }
+
+  private deleteLines(first: Token, last: Token): TextEdit {
+    return {
+      start: this.lineStart(first.position.offset),
+      end: Math.min(this.lineEnd(last.position.offset) + 1, this.text.length),
+      newText: ''
+    };
+  }
+
+  private lineStart(offset: number): number {
+    return this.text.lastIndexOf('\n', offset - 1) + 1;
+  }
+
+  private lineEnd(offset: number): number {
+    const end = this.text.indexOf('\n', offset);
+    return end === -1 ? this.text.length : end;
+  }
+
+  private applyEdits(edits: TextEdit[]): TextEdit[] {
+    this.text = applyTextEdits(this.text, edits);
+    return edits;
+  }
+}
+
+/**
+ * Apply non-overlapping text edits, each given as offsets into the original text
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end);
+  let result = text;
+
+  for (const edit of sorted) {
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+  }
+
+  return result;
+}
+
+/**
+ * Apply the suggested fix of each problem reported for a text
+ * Problems with several suggestions are left for the author to choose, and a fix
+ * whose edits overlap one already taken waits for the next parse
+ */
+export function applyFixes(
+  text: string,
+  problems: Array<ParseError | ParseWarning>
+): { text: string; edits: TextEdit[]; fixed: number } {
+  const edits: TextEdit[] = [];
+  let fixed = 0;
+
+  for (const problem of problems) {
+    const [fix, ...alternatives] = problem.fixes ?? [];
+    if (!fix || alternatives.length > 0) continue;
+
+    const overlaps = fix.edits.some(edit => edits.some(taken =>
+      edit.start === taken.start || (edit.start < taken.end && taken.start < edit.end)));
+    if (overlaps) continue;
+
+    edits.push(...fix.edits);
+    fixed++;
+  }
+
+  return { text: applyTextEdits(text, edits), edits, fixed };
+}
@@ -1,6 +1,39 @@
-import { DataFormatter, FieldDefinition, FormattedValue, DataType, DualFormat } from './types.js';
+import { DataFormatter, FieldDefinition, FormattedValue, DataType, DualFormat, FormatterOptions } from './types.js';
+import { isDatePattern, parseDateWithFormat, toLocalDate } from './date-format.js';
+
+// Symbols that pin a currency; `$` stands for the formatter's configured currency
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY'
+};
+
+// The number itself within a pattern: digits, separators and symbols, but not words such as `kg`
+const NUMBER_LAYOUT = /(?<![A-Za-z])[$€£¥%n#](?:[n#.,' $€£¥%]*[$€£¥%n#])?/;
+
+interface NumberPattern {
+  symbol?: string;
+  percent: boolean;
+  decimalPlaces?: number;
+  grouping: boolean;
+  // Text written before and after the number, e.g. ` kg` in `n.## kg`
+  prefix: string;
+  suffix: string;
+  layout: string;
+  // Set for patterns that spell out their separators, e.g. €n.n,##, when the formatter keeps them as written
+  separators?: { group: string; decimal: string };
+}
 
 export class MarkdownDataFormatter implements DataFormatter {
+  private locale: string;
+  private currency: string;
+  private literalSeparators: boolean;
+
+  constructor(options: FormatterOptions = {}) {
+    this.locale = options.locale || 'en-US';
+    this.currency = options.currency || 'USD';
+    this.literalSeparators = options.literalSeparators ?? false;
+  }
   
   formatValue(value: unknown, field: FieldDefinition): FormattedValue {
     if (value === null || value === undefined) {
@@ -205,57 +238,140 @@ export class MarkdownDataFormatter implements DataFormatter {
   }
 
   private applyNumberFormat(value: number, format: string): string {
-    // Handle currency format like $n,n.##
-    if (format.includes('$')) {
-      const formatted = this.formatCurrency(value, format);
-      return formatted;
+    const pattern = this.readNumberPattern(format);
+
+    // Patterns with their own separators are laid out exactly as written when literalSeparators is set
+    if (pattern.separators) {
+      return this.formatWithSeparators(value, pattern, pattern.separators);
     }
-    
-    // Handle percentage format like n.#%
-    if (format.includes('%')) {
-      const percentage = value * 100;
-      return this.formatPercentage(percentage, format);
+
+    let number: string;
+    if (pattern.symbol) {
+      // Handle currency format like $n,n.##
+      number = this.formatCurrency(value, pattern);
+    } else if (pattern.percent) {
+      // Handle percentage format like n.#%
+      number = this.formatPercentage(value * 100, pattern);
+    } else {
+      // Handle decimal format like ####.##
+      number = this.formatDecimal(value, pattern);
     }
-    
-    // Handle decimal format like ####.##
-    return this.formatDecimal(value, format);
+
+    return `${pattern.prefix}${number}${pattern.suffix}`;
   }
 
-  private formatCurrency(value: number, format: string): string {
-    // Extract decimal places from format
-    const decimalMatch = format.match(/\.#+/);
-    const decimalPlaces = decimalMatch ? decimalMatch[0].length - 1 : 2;
+  private formatCurrency(value: number, pattern: NumberPattern): string {
+    const decimalPlaces = pattern.decimalPlaces ?? 2;
     
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(this.locale, {
       style: 'currency',
-      currency: 'USD',
+      currency: this.getCurrencyCode(pattern.symbol),
       minimumFractionDigits: decimalPlaces,
       maximumFractionDigits: decimalPlaces
     }).format(value);
   }
 
-  private formatPercentage(value: number, format: string): string {
-    const decimalMatch = format.match(/\.#+/);
-    const decimalPlaces = decimalMatch ? decimalMatch[0].length - 1 : 1;
+  private formatPercentage(value: number, pattern: NumberPattern): string {
+    const decimalPlaces = pattern.decimalPlaces ?? 1;
     
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(this.locale, {
       style: 'percent',
       minimumFractionDigits: decimalPlaces,
       maximumFractionDigits: decimalPlaces
     }).format(value / 100);
   }
 
-  private formatDecimal(value: number, format: string): string {
-    const decimalMatch = format.match(/\.#+/);
-    const decimalPlaces = decimalMatch ? decimalMatch[0].length - 1 : 0;
+  private formatDecimal(value: number, pattern: NumberPattern): string {
+    const decimalPlaces = pattern.decimalPlaces ?? 0;
     
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(this.locale, {
       minimumFractionDigits: decimalPlaces,
       maximumFractionDigits: decimalPlaces,
-      useGrouping: format.includes(',')
+      useGrouping: pattern.grouping
     }).format(value);
   }
 
+  /**
+   * Format a number into the pattern's own layout, keeping its symbol position and spacing
+   */
+  private formatWithSeparators(
+    value: number,
+    pattern: NumberPattern,
+    separators: { group: string; decimal: string }
+  ): string {
+    const scaled = pattern.percent ? value * 100 : value;
+    const decimalPlaces = pattern.decimalPlaces ?? (pattern.symbol ? 2 : pattern.percent ? 1 : 0);
+    const digits = new Intl.NumberFormat('en-US', {
+      minimumFractionDigits: decimalPlaces,
+      maximumFractionDigits: decimalPlaces,
+      useGrouping: pattern.grouping
+    }).format(Math.abs(scaled));
+
+    // Swap the en-US separators for the pattern's in one pass
+    const number = digits.replace(/[,.]/g, sep => sep === ',' ? separators.group : separators.decimal);
+    let layout = pattern.layout.replace(/[n#](?:[n#.,' ]*[n#])?/, number);
+
+    if (pattern.symbol === '$') {
+      layout = layout.replace('$', this.getCurrencySymbol());
+    }
+
+    return `${pattern.prefix}${scaled < 0 ? '-' : ''}${layout}${pattern.suffix}`;
+  }
+
+  /**
+   * Read the currency symbol, percent sign, grouping and decimal places of a
+   * number pattern, apart from any text around it such as ` kg` in `n.## kg`.
+   * The pattern's grouping and decimal positions take the locale's separators;
+   * with literalSeparators, patterns such as `n.n,##` or `n'n.##` keep their own
+   */
+  private readNumberPattern(format: string): NumberPattern {
+    const match = NUMBER_LAYOUT.exec(format);
+    const layout = match?.[0] ?? format;
+    const prefix = match ? format.slice(0, match.index) : '';
+    const suffix = match ? format.slice(match.index + layout.length) : '';
+
+    const symbol = layout.match(/[$€£¥]/)?.[0];
+    const core = layout.replace(/[$€£¥%]/g, '').trim();
+    const decimalMatch = core.match(/([.,])(#+)$/);
+    const integerPart = decimalMatch ? core.slice(0, -decimalMatch[0].length) : core;
+    const groupMatch = integerPart.match(/[n#]([.,' ])[n#]/);
+
+    const decimal = decimalMatch?.[1] ?? (groupMatch?.[1] === '.' ? ',' : '.');
+    const group = groupMatch?.[1] ?? (decimal === ',' ? '.' : ',');
+    const literal = this.literalSeparators && (decimalMatch !== null || groupMatch !== null);
+
+    return {
+      ...(symbol && { symbol }),
+      percent: layout.includes('%'),
+      ...(decimalMatch?.[2] && { decimalPlaces: decimalMatch[2].length }),
+      grouping: groupMatch !== null,
+      prefix,
+      suffix,
+      layout,
+      ...(literal && { separators: { group, decimal } })
+    };
+  }
+
+  private getCurrencyCode(symbol: string | undefined): string {
+    return (symbol && CURRENCY_SYMBOLS[symbol]) || this.currency;
+  }
+
+  private getCurrencySymbol(): string {
+    const parts = new Intl.NumberFormat(this.locale, { style: 'currency', currency: this.currency }).formatToParts(0);
+    return parts.find(part => part.type === 'currency')?.value ?? this.currency;
+  }
+
+  /**
+   * Group and decimal separators the formatter's locale writes
+   */
+  private getLocaleSeparators(): { group: string; decimal: string } {
+    const parts = new Intl.NumberFormat(this.locale).formatToParts(1234567.8);
+    return {
+      group: parts.find(part => part.type === 'group')?.value ?? ',',
+      decimal: parts.find(part => part.type === 'decimal')?.value ?? '.'
+    };
+  }
+
   private applyDateFormat(date: Date, format: string): string {
     let result = format;
     
@@ -320,11 +436,29 @@ export class MarkdownDataFormatter implements DataFormatter {
     return input.trim();
   }
 
-  private parseNumberValue(input: string, _field: FieldDefinition): number | null {
-    // Remove currency symbols, commas, and percentage signs
-    const cleaned = input.replace(/[$,\s%]/g, '');
+  private parseNumberValue(input: string, field: FieldDefinition): number | null {
+    const format = typeof field.format === 'string' ? field.format : field.format?.input;
+    const pattern = format ? this.readNumberPattern(format) : undefined;
+    const { group, decimal } = pattern?.separators ?? this.getLocaleSeparators();
+
+    // Text around the number may hold separators of its own, e.g. `approx. n.##`
+    let number = input.trim();
+    const prefix = pattern?.prefix.trim();
+    const suffix = pattern?.suffix.trim();
+    if (prefix && number.startsWith(prefix)) number = number.slice(prefix.length);
+    if (suffix && number.endsWith(suffix)) number = number.slice(0, -suffix.length);
+
+    // Drop spacing and grouping, then read the decimal separator as a point
+    const cleaned = number
+      .replace(/\s/g, '')
+      .split(group.trim() || ' ').join('')
+      .replace(decimal, '.')
+      .replace(/[^\d.\-]/g, '');
     const parsed = parseFloat(cleaned);
-    return isNaN(parsed) ? null : parsed;
+
+    if (isNaN(parsed)) return null;
+    // Percent patterns display value * 100
+    return pattern?.percent ? parsed / 100 : parsed;
   }
 
   private parseDateValue(input: string, field: FieldDefinition): Date | null {
@@ -381,7 +515,12 @@ export class MarkdownDataFormatter implements DataFormatter {
   }
 
   private parseDateWithFormat(input: string, format: string): Date | null {
-    // Simplified date parsing - in production, use a proper library
+    if (isDatePattern(format)) {
+      const parts = parseDateWithFormat(input, format);
+      return parts ? toLocalDate(parts) : null;
+    }
+
+    // Formats that are not plain date patterns fall back to native parsing
     try {
       const date = new Date(input);
       return isNaN(date.getTime()) ? null : date;
@@ -415,9 +554,8 @@ export class MarkdownDataFormatter implements DataFormatter {
     }
   }
 
-  private validateNumberFormat(value: string, _format: string | DualFormat): boolean {
-    const cleaned = value.replace(/[$,\s%]/g, '');
-    return !isNaN(parseFloat(cleaned));
+  private validateNumberFormat(value: string, format: string | DualFormat): boolean {
+    return this.parseNumberValue(value, { name: '', type: DataType.NUMBER, format }) !== null;
   }
 
   private validateDateFormat(value: string, format: string | DualFormat): boolean {
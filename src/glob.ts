@@ -0,0 +1,117 @@
+import { Dirent, Stats, promises as fs } from 'fs';
+import { join, resolve, sep } from 'path';
+
+// Directories never worth searching for documents
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Expand file arguments into a sorted list of markdown files (Node only)
+ * Arguments may be files, directories (searched for *.md) or glob patterns
+ * using `*`, `**`, `?` and `{a,b}`; shells that already expanded them are fine too
+ */
+export async function expandFileArguments(patterns: string[], cwd: string = process.cwd()): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!/[*?{]/.test(pattern)) {
+      const path = resolve(cwd, pattern);
+      const stats = await fs.stat(path).catch((): Stats | null => null);
+
+      if (stats?.isDirectory()) {
+        for (const file of await walk(path)) {
+          if (file.endsWith('.md')) files.add(file);
+        }
+      } else {
+        // Missing files are kept so the caller can report them
+        files.add(path);
+      }
+      continue;
+    }
+
+    const { prefix, rest } = splitPattern(pattern);
+    const base = resolve(cwd, prefix);
+    const matcher = globToRegExp(rest);
+
+    for (const file of await walk(base)) {
+      // Walked files all sit below base
+      if (matcher.test(toPosix(file.slice(base.endsWith(sep) ? base.length : base.length + 1)))) {
+        files.add(file);
+      }
+    }
+  }
+
+  return Array.from(files).sort();
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression over posix paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern.charAt(i);
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more whole directories
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = pattern.slice(i + 1, close).split(',').map(option => globToRegExp(option).source.slice(1, -1));
+      source += `(?:${options.join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Split a pattern into its leading path segments without glob characters and the rest
+ */
+function splitPattern(pattern: string): { prefix: string; rest: string } {
+  const segments = toPosix(pattern).split('/');
+  const index = segments.findIndex(segment => /[*?{]/.test(segment));
+  return {
+    prefix: segments.slice(0, index).join('/') || (pattern.startsWith('/') ? '/' : '.'),
+    rest: segments.slice(index).join('/')
+  };
+}
+
+async function walk(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true }).catch((): Dirent[] => []);
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+        files.push(...await walk(path));
+      }
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
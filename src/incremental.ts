@@ -0,0 +1,147 @@
+import {
+  BlockInfo,
+  DataBlock,
+  DataEntry,
+  DataSchema,
+  ExternalSchemaSource,
+  ParseError,
+  ParseOptions,
+  ParseWarning,
+  TextChange,
+  Token,
+  TokenPosition
+} from './types.js';
+
+/**
+ * Tokens and parse output for one stretch of a document: the text before a block
+ * together with the block, or the text after the last block
+ * Chunks end after the line holding a block's closing `!#`, unless another block
+ * opens on that line: only there do the tokenizer and parser both start afresh,
+ * so each chunk can be re-tokenized and parsed on its own
+ */
+export interface ParsedChunk {
+  start: number;
+  end: number;
+  startLine: number;
+  /** Line the next chunk starts on */
+  endLine: number;
+  tokens: Token[];
+  tokenErrors: ParseError[];
+  /** Blocks opened in this chunk, counted as parseBlocks() counts them; more than one when a block opens after `!#` */
+  blocks: BlockInfo[];
+  /** Schemas defined by the chunk's datadef blocks */
+  schemas: Map<string, DataSchema>;
+  /** Schemas the chunk's data blocks were parsed against */
+  dataSchemas: Map<string, DataSchema>;
+  data: Map<string, DataEntry[]>;
+  dataBlocks: DataBlock[];
+  errors: ParseError[];
+  warnings: ParseWarning[];
+}
+
+/**
+ * What reparse() needs from an earlier parse
+ */
+export interface ParseSnapshot {
+  text: string;
+  /** Empty when the earlier parse failed, so the next reparse starts over */
+  chunks: ParsedChunk[];
+  options: ParseOptions;
+  externalSources?: Map<string, ExternalSchemaSource>;
+}
+
+/**
+ * How far a reused chunk moved: lines, characters, and blocks added before it
+ */
+export interface ChunkShift {
+  lines: number;
+  offset: number;
+  blocks: number;
+}
+
+export function createChunk(start: number, startLine: number): ParsedChunk {
+  return {
+    start,
+    end: start,
+    startLine,
+    endLine: startLine,
+    tokens: [],
+    tokenErrors: [],
+    blocks: [],
+    schemas: new Map(),
+    dataSchemas: new Map(),
+    data: new Map(),
+    dataBlocks: [],
+    errors: [],
+    warnings: []
+  };
+}
+
+/**
+ * The text with a change applied
+ * Throws when the change reaches outside the text
+ */
+export function applyTextChange(text: string, change: TextChange): string {
+  const end = change.offset + change.deletedLength;
+  if (change.offset < 0 || change.deletedLength < 0 || end > text.length) {
+    throw new Error(`Change at offset ${change.offset} deleting ${change.deletedLength} characters is outside the text (length ${text.length})`);
+  }
+  return text.slice(0, change.offset) + change.insertedText + text.slice(end);
+}
+
+/**
+ * Move a reused chunk and everything parsed from it, in place
+ */
+export function shiftChunk(chunk: ParsedChunk, shift: ChunkShift): void {
+  chunk.start += shift.offset;
+  chunk.end += shift.offset;
+  chunk.startLine += shift.lines;
+  chunk.endLine += shift.lines;
+
+  for (const token of chunk.tokens) {
+    shiftToken(token, shift);
+  }
+  for (const block of chunk.blocks) {
+    block.startLine += shift.lines;
+    if (block.endLine !== undefined) block.endLine += shift.lines;
+  }
+  for (const problem of [...chunk.tokenErrors, ...chunk.errors, ...chunk.warnings]) {
+    shiftProblem(problem, shift);
+  }
+  for (const schema of chunk.schemas.values()) {
+    if (schema.lineNumber !== undefined) schema.lineNumber += shift.lines;
+    if (schema.blockNumber !== undefined) schema.blockNumber += shift.blocks;
+  }
+  for (const block of chunk.dataBlocks) {
+    block.blockNumber += shift.blocks;
+  }
+  // Records are shared between data and dataBlocks, so they are moved once
+  for (const entries of chunk.data.values()) {
+    for (const entry of entries) {
+      if (entry.lineNumber !== undefined) entry.lineNumber += shift.lines;
+      if (entry.blockNumber !== undefined) entry.blockNumber += shift.blocks;
+      entry.fieldPositions?.forEach(position => shiftPosition(position, shift));
+    }
+  }
+}
+
+export function shiftToken(token: Token, shift: ChunkShift): void {
+  shiftPosition(token.position, shift);
+  if (token.valuePosition) shiftPosition(token.valuePosition, shift);
+  if (token.end) shiftPosition(token.end, shift);
+}
+
+export function shiftProblem(problem: ParseError | ParseWarning, shift: ChunkShift): void {
+  if (problem.lineNumber !== undefined) problem.lineNumber += shift.lines;
+  if (problem.endLineNumber !== undefined) problem.endLineNumber += shift.lines;
+  if (problem.blockNumber !== undefined) problem.blockNumber += shift.blocks;
+  problem.fixes?.forEach(fix => fix.edits.forEach(edit => {
+    edit.start += shift.offset;
+    edit.end += shift.offset;
+  }));
+}
+
+function shiftPosition(position: TokenPosition, shift: ChunkShift): void {
+  position.line += shift.lines;
+  position.offset += shift.offset;
+}
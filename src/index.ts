@@ -1,16 +1,29 @@
 // Main exports
 export { MarkdownDataExtensionParser } from './parser.js';
 export { MarkdownDataFormatter } from './formatter.js';
+export { MarkdownDataSerializer } from './serializer.js';
+export { MarkdownDataEditor, applyTextEdits, applyFixes } from './editor.js';
+export { CsvConverter } from './csv.js';
+export { JsonSchemaConverter } from './json-schema.js';
+export { TypeScriptGenerator, getTypedRecords } from './typegen.js';
+export { UniqueIndex, IndexBuilder } from './indexes.js';
+export { ReferenceResolver } from './references.js';
+export { RecordQuery } from './query.js';
 export { DataTypeConverter } from './data-types.js';
 export { DataValidator } from './validation/syntax.js';
 export { TypeValidator } from './validation/type.js';
 export { HeaderValidator } from './validation/headers.js';
+export { RecordValidator } from './validation/records.js';
 export { Tokenizer } from './tokenizer.js';
 export { SchemaParser, validateSchemaDefinition } from './parsers/schema.js';
 export { TableParser } from './parsers/table.js';
 export { FreeformParser } from './parsers/freeform.js';
 export { BaseParser } from './parsers/base.js';
 export { DataParser } from './parsers/data.js';
+export { FileSystemSchemaResolver } from './resolvers/filesystem.js';
+export { InMemorySchemaResolver } from './resolvers/memory.js';
+export { Workspace } from './workspace.js';
+export { expandFileArguments } from './glob.js';
 
 // Type exports
 export type {
@@ -25,9 +38,34 @@ export type {
   DataEntry,
   FieldDefinition,
   IndexDefinition,
+  FieldReference,
   DualFormat,
   FormattedValue,
+  FormatterOptions,
+  SerializeOptions,
+  TextEdit,
+  TextChange,
+  ParseEvent,
+  WorkspaceResult,
+  CsvExportOptions,
+  CsvImportOptions,
+  CsvImportResult,
+  JsonSchema,
+  JsonSchemaType,
+  JsonSchemaExportOptions,
+  JsonSchemaImportOptions,
+  JsonSchemaImportResult,
+  TypeGenerationOptions,
+  RecordIndex,
+  QueryOperator,
+  SortDirection,
+  Aggregate,
+  AggregateFunction,
   SchemaCache as ISchemaCache,
+  SchemaResolver,
+  ReferenceLink,
+  SourceSpan,
+  QuickFix,
   Token,
   TokenPosition,
   BlockInfo,
@@ -50,24 +88,63 @@ export {
   normalizeWhitespace,
   escapeRegExp,
   createDefaultParseOptions,
-  formatErrorMessage
+  formatErrorMessage,
+  editDistance,
+  suggestNames
 } from './utils.js';
 
+export {
+  parseDateWithFormat,
+  isDatePattern,
+  isAmbiguousDate,
+  toIsoDate,
+  formatDateWithFormat
+} from './date-format.js';
+
+export type { DateParts } from './date-format.js';
+
 // Import classes for convenience functions
 import { MarkdownDataExtensionParser } from './parser.js';
 import { MarkdownDataFormatter } from './formatter.js';
+import { MarkdownDataSerializer } from './serializer.js';
+import { CsvConverter } from './csv.js';
+import { JsonSchemaConverter } from './json-schema.js';
+import { TypeScriptGenerator } from './typegen.js';
+import { RecordQuery } from './query.js';
 import { DataTypeConverter } from './data-types.js';
 import { DataValidator } from './validation/syntax.js';
 import { TypeValidator } from './validation/type.js';
 import { HeaderValidator } from './validation/headers.js';
+import { Workspace } from './workspace.js';
+import type { DataSchema, FormatterOptions, ParseOptions, ParseResult } from './types.js';
 
 // Convenience factory functions
 export function createParser() {
   return new MarkdownDataExtensionParser();
 }
 
-export function createFormatter() {
-  return new MarkdownDataFormatter();
+export function createFormatter(options?: FormatterOptions) {
+  return new MarkdownDataFormatter(options);
+}
+
+export function createSerializer() {
+  return new MarkdownDataSerializer();
+}
+
+export function createCsvConverter(formatter?: MarkdownDataFormatter) {
+  return new CsvConverter(formatter);
+}
+
+export function createJsonSchemaConverter() {
+  return new JsonSchemaConverter();
+}
+
+export function createTypeGenerator() {
+  return new TypeScriptGenerator();
+}
+
+export function createQuery(result: ParseResult, schemaName: string, schema?: DataSchema) {
+  return RecordQuery.from(result, schemaName, schema);
 }
 
 export function createConverter() {
@@ -86,6 +163,10 @@ export function createHeaderValidator() {
   return new HeaderValidator();
 }
 
+export function createWorkspace(options?: ParseOptions) {
+  return new Workspace(options);
+}
+
 // Default parser instance for simple usage
 export const defaultParser = new MarkdownDataExtensionParser();
 
@@ -0,0 +1,145 @@
+import {
+  DataEntry,
+  DataSchema,
+  DataType,
+  ErrorType,
+  FieldDefinition,
+  IndexDefinition,
+  ParseError,
+  RecordIndex
+} from './types.js';
+import { DataTypeConverter } from './data-types.js';
+import { toIsoDate } from './date-format.js';
+import { fieldValueSpan } from './utils.js';
+
+/**
+ * Unique lookup of records by the values of an index's fields
+ */
+export class UniqueIndex implements RecordIndex {
+  public name: string;
+  public fields: string[];
+  private fieldDefinitions: FieldDefinition[];
+  private records = new Map<string, DataEntry>();
+  private converter = new DataTypeConverter();
+
+  constructor(index: IndexDefinition, schema: DataSchema) {
+    this.name = index.name;
+    this.fields = [...index.fields];
+    this.fieldDefinitions = index.fields.map(name =>
+      schema.fields.find(field => field.name === name) || { name, type: DataType.TEXT }
+    );
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  get(...values: unknown[]): DataEntry | undefined {
+    const key = this.getKey(values);
+    return key === null ? undefined : this.records.get(key);
+  }
+
+  has(...values: unknown[]): boolean {
+    return this.get(...values) !== undefined;
+  }
+
+  /**
+   * Add a record under its key, returning the record that already holds the key
+   * Records with an empty key field are not indexed
+   */
+  add(entry: DataEntry): DataEntry | undefined {
+    const key = this.getKey(this.fields.map(name => entry.rawFields?.get(name) ?? entry.fields.get(name)));
+    if (key === null) return undefined;
+
+    const existing = this.records.get(key);
+    if (!existing) {
+      this.records.set(key, entry);
+    }
+    return existing;
+  }
+
+  private getKey(values: unknown[]): string | null {
+    if (values.length !== this.fieldDefinitions.length) return null;
+
+    const parts: string[] = [];
+    for (let i = 0; i < values.length; i++) {
+      const field = this.fieldDefinitions[i];
+      const part = field ? this.keyPart(values[i], field) : null;
+      if (part === null) return null;
+      parts.push(part);
+    }
+
+    return JSON.stringify(parts);
+  }
+
+  /**
+   * Normalize a key value by field type, so '42' and 42, or '01/02/2024'
+   * and the equivalent Date, give the same key
+   */
+  private keyPart(value: unknown, field: FieldDefinition): string | null {
+    if (value === null || value === undefined || String(value).trim() === '') return null;
+
+    const typed = value instanceof Date ? value : this.converter.convertTypedValue(value, field);
+
+    if (typed instanceof Date) {
+      return field.type === DataType.TIME
+        ? [typed.getHours(), typed.getMinutes(), typed.getSeconds()].map(n => String(n).padStart(2, '0')).join(':')
+        : toIsoDate({ year: typed.getFullYear(), month: typed.getMonth() + 1, day: typed.getDate() });
+    }
+
+    return typeof typed === 'string' ? typed.trim() : String(typed);
+  }
+}
+
+/**
+ * Builds the unique indexes declared by a schema and reports records that repeat a key
+ */
+export class IndexBuilder {
+
+  /**
+   * Index every record of a schema, across all of its data blocks
+   */
+  buildIndexes(schema: DataSchema, entries: DataEntry[]): { indexes: Map<string, UniqueIndex>; errors: ParseError[] } {
+    const indexes = new Map<string, UniqueIndex>();
+    const errors: ParseError[] = [];
+    const fieldNames = new Set(schema.fields.map(field => field.name));
+
+    // Indexes naming unknown fields are already reported by the schema parser
+    for (const definition of schema.indexes) {
+      if (definition.fields.length === 0 || !definition.fields.every(name => fieldNames.has(name))) continue;
+
+      const index = new UniqueIndex(definition, schema);
+      for (const entry of entries) {
+        const existing = index.add(entry);
+        if (existing) {
+          errors.push(this.duplicateError(entry, existing, index, schema));
+        }
+      }
+      indexes.set(index.name, index);
+    }
+
+    return { indexes, errors };
+  }
+
+  private duplicateError(entry: DataEntry, existing: DataEntry, index: UniqueIndex, schema: DataSchema): ParseError {
+    const key = index.fields.map(name => String(entry.fields.get(name))).join(', ');
+    const where = (record: DataEntry) => record.lineNumber !== undefined ? `line ${record.lineNumber}` : `record ${record.recordNumber ?? '?'}`;
+    const [firstField] = index.fields;
+    // Records are reported at their first line, so only a key on that line (a table cell) keeps its span
+    const span = firstField !== undefined ? fieldValueSpan(entry, firstField) : undefined;
+
+    return {
+      type: ErrorType.DUPLICATE_KEY,
+      message: `Duplicate key '${key}' for index '${index.name}' in schema '${schema.name}' - ${where(entry)} repeats ${where(existing)}`,
+      schemaName: schema.name,
+      ...(index.fields.length === 1 && firstField !== undefined && { fieldName: firstField }),
+      blockType: 'data',
+      ...(entry.lineNumber !== undefined && { lineNumber: entry.lineNumber }),
+      ...(span?.lineNumber === entry.lineNumber && span),
+      ...(entry.blockNumber !== undefined && { blockNumber: entry.blockNumber }),
+      ...(entry.recordNumber !== undefined && { recordNumber: entry.recordNumber }),
+      ...(entry.sourceFile && { sourceFile: entry.sourceFile }),
+      ...(existing.lineNumber !== undefined && { relatedLineNumber: existing.lineNumber })
+    };
+  }
+}
@@ -0,0 +1,236 @@
+import {
+  DataSchema,
+  DataType,
+  FieldDefinition,
+  JsonSchema,
+  JsonSchemaExportOptions,
+  JsonSchemaImportOptions,
+  JsonSchemaImportResult,
+  JsonSchemaType,
+  ValidationRules
+} from './types.js';
+import { MarkdownDataSerializer } from './serializer.js';
+import { isValidFieldName, isValidSchemaName } from './utils.js';
+
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
+// Same times the type validator accepts: H:MM or HH:MM with optional seconds, 24-hour or with AM/PM
+const TIME_PATTERN = '^(?:([01]?\\d|2[0-3]):([0-5]?\\d)(?::([0-5]?\\d))?|(0?[1-9]|1[0-2]):([0-5]?\\d)(?::([0-5]?\\d))?\\s*(?:AM|PM|am|pm))$';
+
+/**
+ * Converts schema definitions to JSON Schema (draft 2020-12) and flat JSON Schema
+ * objects back to `!? datadef` blocks
+ */
+export class JsonSchemaConverter {
+  private serializer: MarkdownDataSerializer;
+
+  constructor() {
+    this.serializer = new MarkdownDataSerializer();
+  }
+
+  /**
+   * Describe one record of a schema as a JSON Schema object
+   * Optional fields also accept null, as empty cells parse to null
+   */
+  toJsonSchema(schema: DataSchema, options: JsonSchemaExportOptions = {}): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    for (const field of schema.fields) {
+      properties[field.name] = this.fieldToProperty(field);
+    }
+
+    const required = schema.fields.filter(field => field.required).map(field => field.name);
+
+    return {
+      $schema: DRAFT_2020_12,
+      ...(options.id && { $id: options.id }),
+      title: schema.name,
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+      additionalProperties: false,
+      ...(schema.indexes.length > 0 && { 'x-mdl-indexes': schema.indexes.map(index => [...index.fields]) })
+    };
+  }
+
+  /**
+   * Build a schema from a flat JSON Schema object whose properties are strings,
+   * numbers, integers or booleans
+   * Throws when the input is not an object schema or uses nested properties
+   */
+  fromJsonSchema(json: JsonSchema, options: JsonSchemaImportOptions = {}): JsonSchemaImportResult {
+    const name = options.name ?? json.title?.trim().replace(/\s+/g, '_');
+
+    if (!name || !isValidSchemaName(name)) {
+      throw new Error(name
+        ? `'${name}' is not a valid schema name - pass a name option`
+        : 'JSON Schema has no title - pass a name option');
+    }
+    if (json.type !== undefined && json.type !== 'object') {
+      throw new Error(`JSON Schema for '${name}' must describe an object, not ${JSON.stringify(json.type)}`);
+    }
+
+    const required = new Set(json.required ?? []);
+    const fields = Object.entries(json.properties ?? {}).map(([fieldName, property]) =>
+      this.propertyToField(fieldName, property, required.has(fieldName), name)
+    );
+
+    const fieldNames = new Set(fields.map(field => field.name));
+    const indexes = (json['x-mdl-indexes'] ?? [])
+      .filter(index => index.length > 0 && index.every(fieldName => fieldNames.has(fieldName)))
+      .map(index => ({ fields: [...index], name: index.join('+') }));
+
+    const schema: DataSchema = { name, fields, indexes };
+    return { schema, markdown: this.serializer.serializeSchema(schema) };
+  }
+
+  private fieldToProperty(field: FieldDefinition): JsonSchema {
+    const rules = field.validation ?? {};
+    const property: JsonSchema = {
+      type: this.jsonType(field),
+      ...(field.label !== undefined && { title: field.label })
+    };
+
+    switch (field.type) {
+      case DataType.DATE:
+        // validateData() normalizes pattern dates to ISO 8601, the `date` format
+        property.format = 'date';
+        break;
+      case DataType.TIME:
+        property['x-mdl-type'] = DataType.TIME;
+        property.pattern = TIME_PATTERN;
+        break;
+    }
+
+    // min/max bound the length of text, the value of numbers, and dates and times by annotation
+    if (field.type === DataType.TEXT) {
+      this.assignLength(property, 'minLength', rules.min, rules.minLength, Math.max);
+      this.assignLength(property, 'maxLength', rules.max, rules.maxLength, Math.min);
+    } else {
+      if (rules.minLength !== undefined) property.minLength = rules.minLength;
+      if (rules.maxLength !== undefined) property.maxLength = rules.maxLength;
+    }
+
+    if (field.type === DataType.NUMBER) {
+      if (typeof rules.min === 'number') property.minimum = rules.min;
+      if (typeof rules.max === 'number') property.maximum = rules.max;
+    } else if (field.type === DataType.DATE || field.type === DataType.TIME) {
+      const bounds: Pick<ValidationRules, 'min' | 'max'> = {
+        ...(rules.min !== undefined && { min: rules.min }),
+        ...(rules.max !== undefined && { max: rules.max })
+      };
+      if (Object.keys(bounds).length > 0) property['x-mdl-validation'] = bounds;
+    }
+
+    if (rules.pattern !== undefined) property.pattern = rules.pattern;
+    if (rules.oneOf !== undefined) {
+      const options = field.type === DataType.NUMBER ? rules.oneOf.map(Number) : [...rules.oneOf];
+      property.enum = field.required ? options : [...options, null];
+    }
+    if (field.format !== undefined) {
+      property['x-mdl-format'] = typeof field.format === 'string' ? field.format : { ...field.format };
+    }
+    if (field.ref !== undefined) {
+      property['x-mdl-ref'] = `${field.ref.schema}.${field.ref.field}`;
+    }
+
+    return property;
+  }
+
+  private jsonType(field: FieldDefinition): JsonSchemaType | JsonSchemaType[] {
+    const type: JsonSchemaType = field.type === DataType.NUMBER
+      ? 'number'
+      : field.type === DataType.BOOLEAN ? 'boolean' : 'string';
+    return field.required ? type : [type, 'null'];
+  }
+
+  private assignLength(
+    property: JsonSchema,
+    keyword: 'minLength' | 'maxLength',
+    bound: number | string | undefined,
+    length: number | undefined,
+    pick: (a: number, b: number) => number
+  ): void {
+    const values = [bound, length].filter((value): value is number => typeof value === 'number');
+    if (values.length > 0) {
+      property[keyword] = values.reduce(pick);
+    }
+  }
+
+  private propertyToField(name: string, property: JsonSchema, required: boolean, schemaName: string): FieldDefinition {
+    if (!isValidFieldName(name)) {
+      throw new Error(`Property '${name}' in JSON Schema for '${schemaName}' is not a valid field name`);
+    }
+
+    const types = (Array.isArray(property.type) ? property.type : [property.type ?? this.inferType(property)])
+      .filter(type => type !== 'null');
+    const [jsonType] = types;
+
+    if (types.length !== 1 || jsonType === 'object' || jsonType === 'array' || jsonType === undefined) {
+      throw new Error(`Property '${name}' in JSON Schema for '${schemaName}' must have one string, number, integer or boolean type`);
+    }
+
+    const type = property['x-mdl-type'] === DataType.TIME
+      ? DataType.TIME
+      : jsonType === 'number' || jsonType === 'integer'
+        ? DataType.NUMBER
+        : jsonType === 'boolean'
+          ? DataType.BOOLEAN
+          : property.format === 'date' ? DataType.DATE : DataType.TEXT;
+
+    const validation = this.propertyRules(property, type);
+    const format = property['x-mdl-format'];
+    const [refSchema, refField, ...extra] = (property['x-mdl-ref'] ?? '').split('.');
+    const ref = refSchema && refField && extra.length === 0 ? { schema: refSchema, field: refField } : undefined;
+
+    return {
+      name,
+      type,
+      ...(property.title !== undefined && { label: property.title }),
+      ...(format !== undefined && { format: typeof format === 'string' ? format : { ...format } }),
+      ...(required && { required: true }),
+      ...(Object.keys(validation).length > 0 && { validation }),
+      ...(ref && { ref })
+    };
+  }
+
+  private propertyRules(property: JsonSchema, type: DataType): ValidationRules {
+    const rules: ValidationRules = {};
+    const bounds = property['x-mdl-validation'] ?? {};
+
+    if (type === DataType.NUMBER) {
+      if (property.minimum !== undefined) rules.min = property.minimum;
+      if (property.maximum !== undefined) rules.max = property.maximum;
+    } else if (type === DataType.DATE || type === DataType.TIME) {
+      if (bounds.min !== undefined) rules.min = bounds.min;
+      if (bounds.max !== undefined) rules.max = bounds.max;
+    }
+
+    if (property.minLength !== undefined) rules.minLength = property.minLength;
+    if (property.maxLength !== undefined) rules.maxLength = property.maxLength;
+
+    // The time check is implied by the field type
+    if (property.pattern !== undefined && !(type === DataType.TIME && property.pattern === TIME_PATTERN)) {
+      rules.pattern = property.pattern;
+    }
+
+    const options = property.enum ?? (property.const !== undefined ? [property.const] : undefined);
+    if (options) {
+      rules.oneOf = options.filter(option => option !== null).map(option => String(option));
+    }
+
+    return rules;
+  }
+
+  /**
+   * Type of a property that omits `type`, from its enum or const values
+   */
+  private inferType(property: JsonSchema): JsonSchemaType | undefined {
+    const values = (property.enum ?? (property.const !== undefined ? [property.const] : []))
+      .filter(value => value !== null);
+    const kinds = new Set(values.map(value => typeof value));
+
+    if (kinds.size !== 1) return undefined;
+    const [kind] = Array.from(kinds);
+    return kind === 'string' || kind === 'number' || kind === 'boolean' ? kind : undefined;
+  }
+}
@@ -0,0 +1,5 @@
+import { startLanguageServer } from './server.js';
+
+startLanguageServer(process.stdin, process.stdout).then(code => {
+  process.exit(code);
+});
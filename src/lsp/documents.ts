@@ -0,0 +1,161 @@
+import { Position, Range, TextDocumentContentChangeEvent } from './protocol.js';
+
+/**
+ * The block a line sits in, read from the raw text so it works while the block is still being typed
+ */
+export interface BlockContext {
+  type: 'datadef' | 'data';
+  schemaName: string;
+  externalPath?: string;
+  /** Zero-based line of the `!? datadef` / `!? data` line */
+  startLine: number;
+  /** Range of the schema name, or of the whole `[name](path)` link, on the start line */
+  nameRange: Range;
+}
+
+/**
+ * A `!name` field marker or table header cell under the cursor
+ */
+export interface FieldAtPosition {
+  name: string;
+  range: Range;
+}
+
+const BLOCK_START = /^(\s*!\?\s*)(datadef|data)(\s+)(\[([^\]]*)\]\(([^)]*)\)|\S+)?/;
+const BLOCK_END = /^\s*!#/;
+const FIELD_NAME = /[A-Za-z][A-Za-z0-9_]*/y;
+
+export function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+export function offsetAt(text: string, position: Position): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = text.indexOf('\n', offset);
+    if (next === -1) return text.length;
+    offset = next + 1;
+  }
+  const lineEnd = text.indexOf('\n', offset);
+  return Math.min(offset + position.character, lineEnd === -1 ? text.length : lineEnd);
+}
+
+export function positionAt(text: string, offset: number): Position {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length - 1;
+  return { line, character: offset - (before.lastIndexOf('\n') + 1) };
+}
+
+/**
+ * Apply LSP content changes in order; a change without a range replaces the whole text
+ */
+export function applyContentChanges(text: string, changes: TextDocumentContentChangeEvent[]): string {
+  for (const change of changes) {
+    if (!change.range) {
+      text = change.text;
+      continue;
+    }
+    const start = offsetAt(text, change.range.start);
+    const end = offsetAt(text, change.range.end);
+    text = text.slice(0, start) + change.text + text.slice(end);
+  }
+  return text;
+}
+
+export function createRange(line: number, start: number, end: number): Range {
+  return { start: { line, character: start }, end: { line, character: end } };
+}
+
+/**
+ * True when two ranges share a position, counting their ends, so a cursor touching a range is in it
+ */
+export function rangesTouch(a: Range, b: Range): boolean {
+  return !isBefore(a.end, b.start) && !isBefore(b.end, a.start);
+}
+
+function isBefore(a: Position, b: Position): boolean {
+  return a.line < b.line || (a.line === b.line && a.character < b.character);
+}
+
+/**
+ * The block containing a line, or undefined outside blocks and on `!#` lines
+ */
+export function findBlockAt(lines: string[], line: number): BlockContext | undefined {
+  for (let current = line; current >= 0; current--) {
+    const text = lines[current] ?? '';
+    if (BLOCK_END.test(text)) return undefined;
+
+    const match = BLOCK_START.exec(text);
+    if (!match) continue;
+
+    const [, prefix = '', type, space = '', name = '', linkName, linkPath] = match;
+    const nameStart = prefix.length + (type?.length ?? 0) + space.length;
+    return {
+      type: type === 'datadef' ? 'datadef' : 'data',
+      schemaName: linkName !== undefined ? linkName.trim() : name,
+      ...(linkPath !== undefined && { externalPath: linkPath.trim() }),
+      startLine: current,
+      nameRange: createRange(current, nameStart, nameStart + name.length)
+    };
+  }
+  return undefined;
+}
+
+/**
+ * True when a line of a data block is its table header: the first table row of the block
+ */
+export function isTableHeader(lines: string[], block: BlockContext, line: number): boolean {
+  if (!/^\s*\|/.test(lines[line] ?? '')) return false;
+  for (let current = block.startLine + 1; current < line; current++) {
+    if (/^\s*\|/.test(lines[current] ?? '')) return false;
+  }
+  return true;
+}
+
+/**
+ * Field names already given in the free-form record a line belongs to
+ */
+export function fieldsInRecord(lines: string[], block: BlockContext, line: number): Set<string> {
+  const names = new Set<string>();
+  for (let current = line - 1; current > block.startLine; current--) {
+    const text = lines[current] ?? '';
+    if (/^\s*!-/.test(text)) break;
+    const match = /^\s*!([A-Za-z][A-Za-z0-9_]*)/.exec(text);
+    if (match?.[1]) names.add(match[1]);
+  }
+  return names;
+}
+
+/**
+ * The field named under the cursor: a `!name` marker in a data block or table header,
+ * or the name after `!fname:` in a schema definition
+ */
+export function findFieldAt(lines: string[], block: BlockContext, position: Position): FieldAtPosition | undefined {
+  const text = lines[position.line] ?? '';
+
+  if (block.type === 'datadef') {
+    const match = /^(\s*!fname:\s*)([A-Za-z][A-Za-z0-9_]*)/.exec(text);
+    if (!match?.[2]) return undefined;
+    const start = match[1]?.length ?? 0;
+    return containsCharacter(start, start + match[2].length, position)
+      ? { name: match[2], range: createRange(position.line, start, start + match[2].length) }
+      : undefined;
+  }
+
+  const header = isTableHeader(lines, block, position.line);
+  for (let index = text.indexOf('!'); index !== -1; index = text.indexOf('!', index + 1)) {
+    // Free-form fields are only named at the start of a line
+    if (!header && text.slice(0, index).trim() !== '') break;
+
+    FIELD_NAME.lastIndex = index + 1;
+    const name = FIELD_NAME.exec(text)?.[0];
+    if (name && containsCharacter(index, index + 1 + name.length, position)) {
+      return { name, range: createRange(position.line, index, index + 1 + name.length) };
+    }
+  }
+  return undefined;
+}
+
+function containsCharacter(start: number, end: number, position: Position): boolean {
+  return position.character >= start && position.character <= end;
+}
@@ -0,0 +1,362 @@
+import { Readable, Writable } from 'stream';
+
+/**
+ * The parts of the Language Server Protocol the mdl-lsp server speaks
+ * Positions are zero-based, with characters counted in UTF-16 code units like JavaScript strings
+ */
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export enum DiagnosticSeverity {
+  Error = 1,
+  Warning = 2
+}
+
+export interface Diagnostic {
+  range: Range;
+  severity: DiagnosticSeverity;
+  source: string;
+  message: string;
+  code?: string;
+  relatedInformation?: Array<{ location: Location; message: string }>;
+}
+
+export interface MarkupContent {
+  kind: 'markdown';
+  value: string;
+}
+
+export enum CompletionItemKind {
+  Field = 5
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionItemKind;
+  detail?: string;
+  documentation?: MarkupContent;
+  filterText?: string;
+  textEdit: TextEdit;
+}
+
+export interface Hover {
+  contents: MarkupContent;
+  range: Range;
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: Diagnostic[];
+  /** Set when the fix is the only suggestion for its diagnostic */
+  isPreferred?: boolean;
+  edit: { changes: Record<string, TextEdit[]> };
+}
+
+export interface CodeActionParams {
+  textDocument: { uri: string };
+  range: Range;
+}
+
+export interface TextDocumentItem {
+  uri: string;
+  languageId: string;
+  version: number;
+  text: string;
+}
+
+export interface TextDocumentContentChangeEvent {
+  /** Absent when the change replaces the whole document */
+  range?: Range;
+  text: string;
+}
+
+export interface DidChangeTextDocumentParams {
+  textDocument: { uri: string; version: number };
+  contentChanges: TextDocumentContentChangeEvent[];
+}
+
+export interface TextDocumentPositionParams {
+  textDocument: { uri: string };
+  position: Position;
+}
+
+export enum TextDocumentSyncKind {
+  Incremental = 2
+}
+
+export enum MessageType {
+  Error = 1
+}
+
+/**
+ * JSON-RPC error codes sent back for failed requests
+ */
+export enum ResponseErrorCode {
+  ParseError = -32700,
+  MethodNotFound = -32601,
+  InvalidParams = -32602,
+  InternalError = -32603,
+  ServerNotInitialized = -32002,
+  InvalidRequest = -32600
+}
+
+export class ResponseError extends Error {
+  constructor(public readonly code: ResponseErrorCode, message: string) {
+    super(message);
+    this.name = 'ResponseError';
+  }
+}
+
+export interface Message {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+type RequestHandler = (params: unknown) => unknown;
+type NotificationHandler = (params: unknown) => void;
+
+const HEADER_END = '\r\n\r\n';
+
+/**
+ * JSON-RPC over a pair of streams, framed with `Content-Length` headers as LSP clients expect
+ */
+export class JsonRpcConnection {
+  private buffer = Buffer.alloc(0);
+  private requestHandlers = new Map<string, RequestHandler>();
+  private notificationHandlers = new Map<string, NotificationHandler>();
+  private closed = false;
+
+  constructor(private input: Readable, private output: Writable) {}
+
+  onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  sendNotification(method: string, params: unknown): void {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  /**
+   * Show a message in the client's log, for failures no request is waiting to hear about
+   */
+  logError(message: string): void {
+    this.sendNotification('window/logMessage', { type: MessageType.Error, message });
+  }
+
+  /**
+   * Read messages until the input ends or close() is called
+   */
+  listen(): Promise<void> {
+    return new Promise(resolve => {
+      const finish = () => {
+        this.closed = true;
+        this.input.off('data', onData);
+        resolve();
+      };
+      const onData = (data: Buffer | string) => {
+        this.buffer = Buffer.concat([this.buffer, typeof data === 'string' ? Buffer.from(data) : data]);
+        this.readMessages();
+        if (this.closed) finish();
+      };
+
+      this.input.on('data', onData);
+      this.input.once('end', finish);
+      this.input.once('close', finish);
+    });
+  }
+
+  /**
+   * Stop handling messages; listen() resolves once the current input has been read
+   */
+  close(): void {
+    this.closed = true;
+  }
+
+  private readMessages(): void {
+    while (!this.closed) {
+      const headerEnd = this.buffer.indexOf(HEADER_END);
+      if (headerEnd === -1) return;
+
+      const headers = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const length = Number(/Content-Length:\s*(\d+)/i.exec(headers)?.[1]);
+      const bodyStart = headerEnd + HEADER_END.length;
+
+      if (!Number.isInteger(length)) {
+        // Unreadable header: drop it and resynchronise on the next one
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+      if (this.buffer.length < bodyStart + length) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyStart + length).toString('utf-8');
+      this.buffer = this.buffer.subarray(bodyStart + length);
+      this.dispatch(body);
+    }
+  }
+
+  private dispatch(body: string): void {
+    let message: Message;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      this.write({ jsonrpc: '2.0', id: null, error: { code: ResponseErrorCode.ParseError, message: 'Invalid JSON' } });
+      return;
+    }
+
+    if (!isObject(message) || typeof message.method !== 'string') return;
+
+    if (message.id === undefined || message.id === null) {
+      // Nobody waits for a notification's answer, so a failing handler is logged and the server carries on
+      try {
+        this.notificationHandlers.get(message.method)?.(message.params);
+      } catch (error) {
+        this.logError(`${message.method} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return;
+    }
+
+    const id = message.id;
+    const handler = this.requestHandlers.get(message.method);
+    if (!handler) {
+      this.write({
+        jsonrpc: '2.0',
+        id,
+        error: { code: ResponseErrorCode.MethodNotFound, message: `Unhandled method ${message.method}` }
+      });
+      return;
+    }
+
+    const params = message.params;
+    Promise.resolve()
+      .then(() => handler(params))
+      .then(
+        result => this.write({ jsonrpc: '2.0', id, result: result ?? null }),
+        error => this.write({
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: error instanceof ResponseError ? error.code : ResponseErrorCode.InternalError,
+            message: error instanceof Error ? error.message : String(error)
+          }
+        })
+      );
+  }
+
+  private write(message: Message): void {
+    const body = JSON.stringify(message);
+    this.output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}${HEADER_END}${body}`);
+  }
+}
+
+/**
+ * Readers for the params of the messages the server handles
+ * Each checks the fields the server goes on to use and throws InvalidParams when one is missing or mistyped
+ */
+export function readTextDocumentItem(params: unknown): TextDocumentItem {
+  const textDocument = readObject(readObject(params, 'params')['textDocument'], 'textDocument');
+  return {
+    uri: readString(textDocument['uri'], 'textDocument.uri'),
+    languageId: typeof textDocument['languageId'] === 'string' ? textDocument['languageId'] : '',
+    version: readInteger(textDocument['version'], 'textDocument.version'),
+    text: readString(textDocument['text'], 'textDocument.text')
+  };
+}
+
+export function readDidChangeParams(params: unknown): DidChangeTextDocumentParams {
+  const object = readObject(params, 'params');
+  const textDocument = readObject(object['textDocument'], 'textDocument');
+  if (!Array.isArray(object['contentChanges'])) throw invalidParams('contentChanges must be an array');
+
+  return {
+    textDocument: {
+      uri: readString(textDocument['uri'], 'textDocument.uri'),
+      version: readInteger(textDocument['version'], 'textDocument.version')
+    },
+    contentChanges: object['contentChanges'].map((value: unknown, index) => {
+      const change = readObject(value, `contentChanges[${index}]`);
+      const text = readString(change['text'], `contentChanges[${index}].text`);
+      return change['range'] === undefined ? { text } : { range: readRange(change['range'], `contentChanges[${index}].range`), text };
+    })
+  };
+}
+
+export function readTextDocumentIdentifier(params: unknown): { textDocument: { uri: string } } {
+  const textDocument = readObject(readObject(params, 'params')['textDocument'], 'textDocument');
+  return { textDocument: { uri: readString(textDocument['uri'], 'textDocument.uri') } };
+}
+
+export function readTextDocumentPositionParams(params: unknown): TextDocumentPositionParams {
+  return {
+    ...readTextDocumentIdentifier(params),
+    position: readPosition(readObject(params, 'params')['position'], 'position')
+  };
+}
+
+export function readCodeActionParams(params: unknown): CodeActionParams {
+  return {
+    ...readTextDocumentIdentifier(params),
+    range: readRange(readObject(params, 'params')['range'], 'range')
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalidParams(message: string): ResponseError {
+  return new ResponseError(ResponseErrorCode.InvalidParams, message);
+}
+
+function readObject(value: unknown, name: string): Record<string, unknown> {
+  if (!isObject(value)) throw invalidParams(`${name} must be an object`);
+  return value;
+}
+
+function readString(value: unknown, name: string): string {
+  if (typeof value !== 'string') throw invalidParams(`${name} must be a string`);
+  return value;
+}
+
+function readInteger(value: unknown, name: string): number {
+  if (!Number.isInteger(value)) throw invalidParams(`${name} must be an integer`);
+  return value as number;
+}
+
+function readPosition(value: unknown, name: string): Position {
+  const position = readObject(value, name);
+  return {
+    line: readInteger(position['line'], `${name}.line`),
+    character: readInteger(position['character'], `${name}.character`)
+  };
+}
+
+function readRange(value: unknown, name: string): Range {
+  const range = readObject(value, name);
+  return { start: readPosition(range['start'], `${name}.start`), end: readPosition(range['end'], `${name}.end`) };
+}
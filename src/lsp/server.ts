@@ -0,0 +1,466 @@
+import { Readable, Writable } from 'stream';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { MarkdownDataExtensionParser } from '../parser.js';
+import { FileSystemSchemaResolver } from '../resolvers/filesystem.js';
+import { DataSchema, FieldDefinition, ParseError, ParseResult, ParseWarning, SchemaResolver } from '../types.js';
+import { SchemaCache } from '../utils.js';
+import {
+  BlockContext,
+  applyContentChanges,
+  createRange,
+  fieldsInRecord,
+  findBlockAt,
+  findFieldAt,
+  isTableHeader,
+  positionAt,
+  rangesTouch,
+  splitLines
+} from './documents.js';
+import {
+  CodeAction,
+  CodeActionParams,
+  CompletionItem,
+  CompletionItemKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  Hover,
+  JsonRpcConnection,
+  Location,
+  Range,
+  ResponseError,
+  ResponseErrorCode,
+  TextDocumentPositionParams,
+  TextDocumentSyncKind,
+  readCodeActionParams,
+  readDidChangeParams,
+  readTextDocumentIdentifier,
+  readTextDocumentItem,
+  readTextDocumentPositionParams
+} from './protocol.js';
+
+interface OpenDocument {
+  uri: string;
+  /** File path for `file:` URIs, used as the parse's sourceFile */
+  path?: string;
+  text: string;
+  version: number;
+  /** Each document gets its own parser, so concurrent parses never share a schema cache */
+  parser: MarkdownDataExtensionParser;
+  result?: ParseResult;
+  /** Text the latest result was parsed from; its fix offsets point into this text */
+  parsedText?: string;
+  /** External schemas loaded by the latest parse, keyed `<resolved path>#<schema name>` */
+  schemaCache?: SchemaCache;
+  /** Parses run one at a time, in the order the changes arrived */
+  parsing: Promise<void>;
+}
+
+const DIAGNOSTIC_SOURCE = 'mdl';
+
+/**
+ * Schema resolver that reads open documents from the editor and everything else from disk
+ */
+class OpenDocumentResolver implements SchemaResolver {
+  private files = new FileSystemSchemaResolver();
+
+  constructor(private documents: Map<string, OpenDocument>) {}
+
+  resolvePath(path: string, fromFile?: string): string {
+    return this.files.resolvePath(path, fromFile);
+  }
+
+  async resolve(path: string, fromFile?: string): Promise<string> {
+    const resolvedPath = this.resolvePath(path, fromFile);
+    for (const document of this.documents.values()) {
+      if (document.path === resolvedPath) return document.text;
+    }
+    return this.files.resolve(path, fromFile) as Promise<string>;
+  }
+}
+
+/**
+ * Language server for Markdown Data Extension documents
+ * Publishes parse errors and warnings as diagnostics with their quick fixes, and offers
+ * field completion, field hovers and go-to-definition from data blocks to their schema
+ */
+export class MarkdownDataLanguageServer {
+  private connection: JsonRpcConnection;
+  private documents = new Map<string, OpenDocument>();
+  private resolver = new OpenDocumentResolver(this.documents);
+  private initialized = false;
+  private shutdownRequested = false;
+
+  constructor(input: Readable, output: Writable) {
+    this.connection = new JsonRpcConnection(input, output);
+    this.registerHandlers();
+  }
+
+  /**
+   * Serve requests until the client sends `exit` or closes the input
+   * Resolves to the process exit code: 0 after an orderly shutdown, 1 otherwise
+   */
+  async listen(): Promise<number> {
+    await this.connection.listen();
+    return this.shutdownRequested ? 0 : 1;
+  }
+
+  private registerHandlers(): void {
+    const connection = this.connection;
+
+    connection.onRequest('initialize', () => {
+      this.initialized = true;
+      return {
+        capabilities: {
+          textDocumentSync: { openClose: true, change: TextDocumentSyncKind.Incremental },
+          completionProvider: { triggerCharacters: ['!', '|'] },
+          hoverProvider: true,
+          definitionProvider: true,
+          codeActionProvider: { codeActionKinds: ['quickfix'] }
+        },
+        serverInfo: { name: 'mdl-lsp' }
+      };
+    });
+    connection.onRequest('shutdown', () => {
+      this.shutdownRequested = true;
+      return null;
+    });
+    connection.onNotification('exit', () => connection.close());
+
+    connection.onNotification('textDocument/didOpen', params => {
+      const { uri, text, version } = readTextDocumentItem(params);
+      const document: OpenDocument = {
+        uri,
+        text,
+        version,
+        parser: new MarkdownDataExtensionParser(),
+        parsing: Promise.resolve()
+      };
+      const path = this.getFilePath(uri);
+      if (path) document.path = path;
+
+      this.documents.set(uri, document);
+      this.scheduleParse(document);
+    });
+    connection.onNotification('textDocument/didChange', rawParams => {
+      const params = readDidChangeParams(rawParams);
+      const document = this.documents.get(params.textDocument.uri);
+      if (!document) return;
+
+      document.text = applyContentChanges(document.text, params.contentChanges);
+      document.version = params.textDocument.version;
+      this.scheduleParse(document);
+    });
+    connection.onNotification('textDocument/didClose', params => {
+      const { uri } = readTextDocumentIdentifier(params).textDocument;
+      this.documents.delete(uri);
+      connection.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+    });
+
+    connection.onRequest('textDocument/completion', rawParams => {
+      const params = readTextDocumentPositionParams(rawParams);
+      return this.whenReady(params, document => this.getCompletions(document, params));
+    });
+    connection.onRequest('textDocument/hover', rawParams => {
+      const params = readTextDocumentPositionParams(rawParams);
+      return this.whenReady(params, document => this.getHover(document, params));
+    });
+    connection.onRequest('textDocument/definition', rawParams => {
+      const params = readTextDocumentPositionParams(rawParams);
+      return this.whenReady(params, document => this.getDefinition(document, params));
+    });
+    connection.onRequest('textDocument/codeAction', rawParams => {
+      const params = readCodeActionParams(rawParams);
+      return this.whenReady(params, document => this.getCodeActions(document, params));
+    });
+  }
+
+  /**
+   * Run a document request once the server is initialized; unknown documents answer null
+   */
+  private whenReady<T>(params: { textDocument: { uri: string } }, handler: (document: OpenDocument) => T): T | null {
+    if (!this.initialized) {
+      throw new ResponseError(ResponseErrorCode.ServerNotInitialized, 'Server not initialized');
+    }
+    if (this.shutdownRequested) {
+      throw new ResponseError(ResponseErrorCode.InvalidRequest, 'Server is shutting down');
+    }
+    const document = this.documents.get(params.textDocument.uri);
+    return document ? handler(document) : null;
+  }
+
+  private scheduleParse(document: OpenDocument): void {
+    const version = document.version;
+    // A later change has queued its own parse
+    const isCurrent = () => document.version === version && this.documents.get(document.uri) === document;
+
+    document.parsing = document.parsing.then(async () => {
+      if (!isCurrent()) return;
+
+      const schemaCache = new SchemaCache();
+      const text = document.text;
+      const result = await document.parser.parseAsync(text, {
+        schemaResolver: this.resolver,
+        schemaCache,
+        // A typo in one field definition should not hide the rest of the document's diagnostics
+        recoverSchemas: true,
+        ...(document.path && { sourceFile: document.path })
+      });
+      if (!isCurrent()) return;
+
+      document.result = result;
+      document.parsedText = text;
+      document.schemaCache = schemaCache;
+      this.connection.sendNotification('textDocument/publishDiagnostics', {
+        uri: document.uri,
+        version,
+        diagnostics: this.getDiagnostics(document, result)
+      });
+    }).catch(error => {
+      // The failure is shown on the document and the next change still gets its parse
+      if (!isCurrent()) return;
+      this.connection.sendNotification('textDocument/publishDiagnostics', {
+        uri: document.uri,
+        version,
+        diagnostics: [{
+          range: createRange(0, 0, 0),
+          severity: DiagnosticSeverity.Error,
+          source: DIAGNOSTIC_SOURCE,
+          message: `Could not parse document: ${error instanceof Error ? error.message : String(error)}`
+        }]
+      });
+    });
+  }
+
+  private getDiagnostics(document: OpenDocument, result: ParseResult): Diagnostic[] {
+    const lines = splitLines(document.text);
+    return [
+      ...result.errors.map(error => this.createDiagnostic(document, lines, error, DiagnosticSeverity.Error)),
+      ...result.warnings.map(warning => this.createDiagnostic(document, lines, warning, DiagnosticSeverity.Warning))
+    ];
+  }
+
+  /**
+   * Quick fixes for the problems whose ranges touch the requested range
+   */
+  private getCodeActions(document: OpenDocument, params: CodeActionParams): CodeAction[] {
+    const text = document.text;
+    // Fix offsets only hold for the text that was parsed; the parse of newer changes is still to come
+    if (!document.result || document.parsedText !== text) return [];
+
+    const lines = splitLines(text);
+    const problems = [
+      ...document.result.errors.map(problem => ({ problem, severity: DiagnosticSeverity.Error })),
+      ...document.result.warnings.map(problem => ({ problem, severity: DiagnosticSeverity.Warning }))
+    ];
+    const actions: CodeAction[] = [];
+
+    for (const { problem, severity } of problems) {
+      if (!problem.fixes) continue;
+      const diagnostic = this.createDiagnostic(document, lines, problem, severity);
+      if (!rangesTouch(diagnostic.range, params.range)) continue;
+
+      for (const fix of problem.fixes) {
+        actions.push({
+          title: fix.title,
+          kind: 'quickfix',
+          diagnostics: [diagnostic],
+          ...(problem.fixes.length === 1 && { isPreferred: true }),
+          edit: {
+            changes: {
+              [document.uri]: fix.edits.map(edit => ({
+                range: { start: positionAt(text, edit.start), end: positionAt(text, edit.end) },
+                newText: edit.newText
+              }))
+            }
+          }
+        });
+      }
+    }
+
+    return actions;
+  }
+
+  private createDiagnostic(
+    document: OpenDocument,
+    lines: string[],
+    problem: ParseError | ParseWarning,
+    severity: DiagnosticSeverity
+  ): Diagnostic {
+    const error: Partial<ParseError> = problem;
+    // Reference chains start at the line of this document that led to the problem
+    const lineNumber = error.referenceChain?.[0]?.lineNumber ?? problem.lineNumber;
+    const range = !error.referenceChain && problem.endLineNumber !== undefined
+      ? this.getSpanRange(problem)
+      : this.getProblemRange(lines, lineNumber, error.referenceChain ? undefined : problem.columnNumber, error.value);
+
+    return {
+      range,
+      severity,
+      source: DIAGNOSTIC_SOURCE,
+      message: problem.message,
+      ...(error.type && { code: error.type }),
+      ...(error.relatedLineNumber !== undefined && {
+        relatedInformation: [{
+          location: { uri: document.uri, range: this.getProblemRange(lines, error.relatedLineNumber, undefined, undefined) },
+          message: 'First record with this key'
+        }]
+      })
+    };
+  }
+
+  /**
+   * Range of a problem that carries its own span; columns are one-based with the end just past the text
+   */
+  private getSpanRange(problem: ParseError | ParseWarning): Range {
+    return {
+      start: { line: (problem.lineNumber ?? 1) - 1, character: (problem.columnNumber ?? 1) - 1 },
+      end: { line: (problem.endLineNumber ?? 1) - 1, character: (problem.endColumnNumber ?? 1) - 1 }
+    };
+  }
+
+  /**
+   * The value an error points at when its column is known, otherwise the text of its line
+   */
+  private getProblemRange(
+    lines: string[],
+    lineNumber: number | undefined,
+    columnNumber: number | undefined,
+    value: string | undefined
+  ): Range {
+    const line = Math.min(Math.max((lineNumber ?? 1) - 1, 0), lines.length - 1);
+    const text = lines[line] ?? '';
+
+    if (columnNumber !== undefined) {
+      const start = Math.min(columnNumber - 1, text.length);
+      const length = value && text.startsWith(value, start) ? value.length : /^\S*/.exec(text.slice(start))?.[0].length ?? 0;
+      return createRange(line, start, start + length);
+    }
+
+    const valueStart = value ? text.indexOf(value) : -1;
+    if (value && valueStart !== -1) {
+      return createRange(line, valueStart, valueStart + value.length);
+    }
+
+    const start = text.length - text.trimStart().length;
+    return createRange(line, start, text.trimEnd().length);
+  }
+
+  private getCompletions(document: OpenDocument, params: TextDocumentPositionParams): CompletionItem[] {
+    const lines = splitLines(document.text);
+    const { line, character } = params.position;
+    const block = findBlockAt(lines, line);
+    if (!block || block.type !== 'data' || line === block.startLine) return [];
+
+    const schema = this.getBlockSchema(document, block);
+    if (!schema) return [];
+
+    const before = (lines[line] ?? '').slice(0, character);
+    let used: Set<string>;
+    let start: number;
+    let marker: string;
+
+    if (isTableHeader(lines, block, line)) {
+      // Header cells are replaced along with their `!`
+      const typed = /!?[A-Za-z0-9_]*$/.exec(before);
+      if (!typed || !/\|\s*$/.test(before.slice(0, typed.index))) return [];
+      start = typed.index;
+      const otherCells = before.slice(0, start) + (lines[line] ?? '').slice(character);
+      used = new Set(otherCells.match(/![A-Za-z][A-Za-z0-9_]*/g)?.map(name => name.slice(1)) ?? []);
+      marker = '!';
+    } else {
+      const typed = /^\s*![A-Za-z0-9_]*$/.exec(before);
+      if (!typed) return [];
+      used = fieldsInRecord(lines, block, line);
+      start = before.indexOf('!') + 1;
+      marker = '';
+    }
+
+    const range = createRange(line, start, character);
+    return schema.fields
+      .filter(field => !used.has(field.name))
+      .map(field => ({
+        label: field.name,
+        kind: CompletionItemKind.Field,
+        detail: field.required ? `${field.type} (required)` : field.type,
+        documentation: { kind: 'markdown' as const, value: this.describeField(schema, field) },
+        filterText: `${marker}${field.name}`,
+        textEdit: { range, newText: `${marker}${field.name}` }
+      }));
+  }
+
+  private getHover(document: OpenDocument, params: TextDocumentPositionParams): Hover | null {
+    const lines = splitLines(document.text);
+    const block = findBlockAt(lines, params.position.line);
+    if (!block || params.position.line === block.startLine) return null;
+
+    const field = findFieldAt(lines, block, params.position);
+    const schema = field && this.getBlockSchema(document, block);
+    const definition = schema?.fields.find(f => f.name === field?.name);
+    if (!field || !schema || !definition) return null;
+
+    return {
+      contents: { kind: 'markdown', value: this.describeField(schema, definition) },
+      range: field.range
+    };
+  }
+
+  private getDefinition(document: OpenDocument, params: TextDocumentPositionParams): Location | null {
+    const lines = splitLines(document.text);
+    const block = findBlockAt(lines, params.position.line);
+    if (!block || block.type !== 'data' || params.position.line !== block.startLine) return null;
+
+    const { start, end } = block.nameRange;
+    if (params.position.character < start.character || params.position.character > end.character) return null;
+
+    const schema = this.getBlockSchema(document, block);
+    if (!schema || schema.lineNumber === undefined) return null;
+
+    const line = schema.lineNumber - 1;
+    const uri = block.externalPath && schema.sourcePath ? pathToFileURL(schema.sourcePath).href : document.uri;
+    return { uri, range: createRange(line, 0, uri === document.uri ? (lines[line] ?? '').length : 0) };
+  }
+
+  /**
+   * The schema a block uses, from the latest parse of the document
+   */
+  private getBlockSchema(document: OpenDocument, block: BlockContext): DataSchema | undefined {
+    if (!block.externalPath) {
+      return document.result?.schemas.get(block.schemaName);
+    }
+    const resolvedPath = this.resolver.resolvePath(block.externalPath, document.path);
+    return document.schemaCache?.get(`${resolvedPath}#${block.schemaName}`);
+  }
+
+  private describeField(schema: DataSchema, field: FieldDefinition): string {
+    const lines = [
+      field.label ? `**${field.label}** \`${schema.name}.${field.name}\`` : `**${schema.name}.${field.name}**`,
+      `Type: \`${field.type}\`${field.required ? ' (required)' : ''}`
+    ];
+    if (field.format) {
+      lines.push(typeof field.format === 'string'
+        ? `Format: \`${field.format}\``
+        : `Format: \`${field.format.input}\` → \`${field.format.display}\``);
+    }
+    if (field.ref) {
+      lines.push(`References \`${field.ref.schema}.${field.ref.field}\``);
+    }
+    return lines.join('\n\n');
+  }
+
+  private getFilePath(uri: string): string | undefined {
+    if (!uri.startsWith('file:')) return undefined;
+    try {
+      return fileURLToPath(uri);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Start a language server on a pair of streams, normally stdin and stdout
+ * Resolves to the exit code once the client sends `exit`
+ */
+export function startLanguageServer(input: Readable, output: Writable): Promise<number> {
+  return new MarkdownDataLanguageServer(input, output).listen();
+}
@@ -1,5 +1,3 @@
-import { promises as fs } from 'fs';
-import { resolve, dirname } from 'path';
 import { 
   MarkdownDataParser, 
   ParseResult, 
@@ -13,103 +11,106 @@ import {
   BlockInfo,
   ParserState,
   ParseError,
-  ParseWarning
+  ParseWarning,
+  ExternalSchemaSource,
+  SchemaResolver,
+  ReferenceLink,
+  RecordIndex,
+  TextChange,
+  ParseEvent,
+  SourceSpan
 } from './types.js';
 import { Tokenizer } from './tokenizer.js';
 import { SchemaParser, validateSchemaDefinition } from './parsers/schema.js';
 import { DataParser } from './parsers/data.js';
 import { DataTypeConverter } from './data-types.js';
-import { createDefaultParseOptions, SchemaCache, formatErrorMessage } from './utils.js';
+import { TypeValidator } from './validation/type.js';
+import { RecordValidator } from './validation/records.js';
+import { IndexBuilder } from './indexes.js';
+import { ReferenceResolver } from './references.js';
+import { ParsedChunk, ParseSnapshot, applyTextChange, createChunk, shiftChunk, shiftProblem, shiftToken } from './incremental.js';
+import { createDefaultParseOptions, SchemaCache, fieldValueSpan, formatErrorMessage, tokenSpan } from './utils.js';
+import { FileSystemSchemaResolver } from './resolvers/filesystem.js';
+
+// Source text and per-chunk output behind each result, for reparse()
+const snapshots = new WeakMap<ParseResult, ParseSnapshot>();
+
+// Text buffered by parseStream() before it is tried for complete blocks
+const STREAM_FLUSH_SIZE = 64 * 1024;
+
+interface StreamBuffer {
+  text: string;
+  start: number;
+  line: number;
+}
 
 export class MarkdownDataExtensionParser implements MarkdownDataParser {
   private schemaCache: SchemaCache;
   private dataTypeConverter: DataTypeConverter;
+  private typeValidator: TypeValidator;
+  private recordValidator: RecordValidator;
+  private indexBuilder: IndexBuilder;
+  private referenceResolver: ReferenceResolver;
   constructor() {
     this.schemaCache = new SchemaCache();
     this.dataTypeConverter = new DataTypeConverter();
+    this.typeValidator = new TypeValidator();
+    this.recordValidator = new RecordValidator();
+    this.indexBuilder = new IndexBuilder();
+    this.referenceResolver = new ReferenceResolver();
   }
 
   parse(markdown: string, options?: ParseOptions): ParseResult {
-    const startTime = Date.now();
+    return this.runParse(markdown, options);
+  }
+
+  /**
+   * Parse markdown, loading any external schema references ([schema](path))
+   * relative to options.basePath before the data blocks are processed
+   */
+  async parseAsync(markdown: string, options?: ParseOptions): Promise<ParseResult> {
     const mergedOptions = { ...createDefaultParseOptions(), ...options };
     
     if (mergedOptions.schemaCache) {
       this.schemaCache = mergedOptions.schemaCache;
     }
 
-    const state: ParserState = {
-      currentLine: 1,
-      currentColumn: 1,
-      inBlock: false,
-      blockCounter: 0,
-      schemas: new Map(),
-      data: new Map(),
-      blocks: [],
-      errors: [],
-      warnings: [],
-      options: mergedOptions
-    };
-
-    try {
-      // Tokenize the markdown
-      const tokenizer = new Tokenizer(markdown);
-      const tokenizeResult = tokenizer.tokenize();
-      
-      // Add tokenization errors to state
-      state.errors.push(...tokenizeResult.errors);
-
-      // Parse blocks
-      this.parseBlocks(tokenizeResult.tokens, state);
-
-      // Note: Data validation is left to consuming applications
-      // This parser focuses on structure and type conversion only
-
-    } catch (error) {
-      this.addErrorWithContext(state, {
-        type: ErrorType.SYNTAX_ERROR,
-        message: `Parser error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        lineNumber: state.currentLine
-      });
-    }
-
-    const parseTime = Date.now() - startTime;
-    const totalDataEntries = Array.from(state.data.values()).reduce((sum, entries) => sum + entries.length, 0);
-    
-    // Generate block-grouped data and totals
-    const blockData = this.generateBlockData(state.blocks);
+    const referenceErrors: ParseError[] = [];
+    const externalSources = mergedOptions.loadExternalSchemas
+      ? await this.loadExternalSources(this.findExternalReferences(markdown), mergedOptions, [], referenceErrors)
+      : new Map<string, ExternalSchemaSource>();
 
-    return {
-      schemas: state.schemas,
-      data: state.data,
-      blockData,
-      errors: state.errors,
-      warnings: state.warnings,
-      metadata: {
-        parseTime,
-        totalLines: markdown.split('\n').length,
-        schemasFound: state.schemas.size,
-        dataEntriesFound: totalDataEntries
-      }
-    };
+    const result = this.runParse(markdown, mergedOptions, externalSources);
+    this.addLineSpans(
+      this.inDocument(referenceErrors, mergedOptions),
+      snapshots.get(result)?.chunks.flatMap(chunk => chunk.tokens) ?? []
+    );
+    result.errors.push(...referenceErrors);
+    return result;
   }
 
   async parseFile(filePath: string, options?: ParseOptions): Promise<ParseResult> {
     try {
-      const absolutePath = resolve(filePath);
-      const markdown = await fs.readFile(absolutePath, 'utf-8');
+      const resolver = options?.schemaResolver || new FileSystemSchemaResolver();
+      const absolutePath = resolver.resolvePath(filePath);
+      const markdown = await resolver.resolve(filePath);
+
+      if (typeof markdown !== 'string') {
+        throw new Error(`Schema resolver returned a schema instead of markdown for '${absolutePath}'`);
+      }
       
       const fileOptions: ParseOptions = {
         ...options,
-        basePath: options?.basePath || dirname(absolutePath),
         sourceFile: absolutePath
       };
 
-      return this.parse(markdown, fileOptions);
+      return await this.parseAsync(markdown, fileOptions);
     } catch (error) {
       return {
         schemas: new Map(),
         data: new Map(),
         blockData: { blocks: [], totalRecords: { total: 0 } },
+        indexes: new Map(),
         errors: [{
           type: ErrorType.EXTERNAL_REFERENCE_FAILED,
           message: `Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -126,6 +127,99 @@ export class MarkdownDataExtensionParser implements MarkdownDataParser {
     }
   }
 
+  /**
+   * Parse a document again after one text change, re-tokenizing only the blocks the
+   * change touches and reusing the rest of the previous result
+   * Reused schemas, records and data blocks are moved to their new lines and block
+   * numbers in place, so only the returned result should be used afterwards.
+   * Indexes and references are rebuilt over the whole document.
+   */
+  reparse(previous: ParseResult, change: TextChange): ParseResult {
+    const snapshot = snapshots.get(previous);
+    if (!snapshot) {
+      throw new Error('Parse result cannot be reparsed - pass the latest result of parse(), parseAsync() or reparse()');
+    }
+
+    const markdown = applyTextChange(snapshot.text, change);
+    snapshots.delete(previous);
+
+    const state = this.createState(snapshot.options, snapshot.externalSources);
+    if (snapshot.chunks.length === 0) {
+      return this.parseDocument(markdown, state, () => this.tokenizeChunks(markdown));
+    }
+    return this.parseDocument(markdown, state, () => this.updateChunks(snapshot.chunks, markdown, change));
+  }
+
+  /**
+   * Parse a document from a stream of text or bytes, such as a Node readable stream,
+   * yielding each schema and data block once its block is complete, followed by
+   * the block's errors and warnings
+   * Only the block being read is held in memory, so checks that need the whole
+   * document - unique indexes and references between schemas - are not made
+   */
+  async *parseStream(
+    source: AsyncIterable<string | Uint8Array>,
+    options?: ParseOptions
+  ): AsyncGenerator<ParseEvent, void, undefined> {
+    const startTime = Date.now();
+    const mergedOptions = { ...createDefaultParseOptions(), ...options };
+    const state = this.createState(mergedOptions, mergedOptions.loadExternalSchemas ? new Map() : undefined);
+    const decoder = new TextDecoder();
+    const buffer: StreamBuffer = { text: '', start: 0, line: 1 };
+    let scanned = 0;
+    let flushAt = STREAM_FLUSH_SIZE;
+    let totalLines = 1;
+    let dataEntriesFound = 0;
+
+    if (mergedOptions.schemaCache) {
+      this.schemaCache = mergedOptions.schemaCache;
+    }
+
+    for await (const piece of source) {
+      const text = typeof piece === 'string' ? piece : decoder.decode(piece, { stream: true });
+      buffer.text += text;
+      totalLines += text.split('\n').length - 1;
+
+      // A line starting with !# may close a block; otherwise retry as the buffer doubles
+      let closes = false;
+      for (let newline = buffer.text.indexOf('\n', scanned); newline !== -1; newline = buffer.text.indexOf('\n', scanned)) {
+        closes = closes || /^\s*!#/.test(buffer.text.slice(scanned, newline));
+        scanned = newline + 1;
+      }
+
+      if (closes || buffer.text.length >= flushAt) {
+        const before = buffer.start;
+        const chunks = this.takeChunks(buffer, false);
+        scanned -= buffer.start - before;
+        flushAt = Math.max(STREAM_FLUSH_SIZE, buffer.text.length * 2);
+
+        for (const chunk of chunks) {
+          yield* await this.streamChunk(chunk, state);
+          dataEntriesFound += chunk.dataBlocks.reduce((sum, block) => sum + block.records.length, 0);
+        }
+      }
+    }
+
+    const rest = decoder.decode();
+    buffer.text += rest;
+    totalLines += rest.split('\n').length - 1;
+
+    for (const chunk of this.takeChunks(buffer, true)) {
+      yield* await this.streamChunk(chunk, state);
+      dataEntriesFound += chunk.dataBlocks.reduce((sum, block) => sum + block.records.length, 0);
+    }
+
+    yield {
+      type: 'end',
+      metadata: {
+        parseTime: Date.now() - startTime,
+        totalLines,
+        schemasFound: state.schemas.size,
+        dataEntriesFound
+      }
+    };
+  }
+
   validateSchema(schema: DataSchema): ValidationResult {
     const errors = validateSchemaDefinition(schema);
     return {
@@ -146,21 +240,24 @@ export class MarkdownDataExtensionParser implements MarkdownDataParser {
       for (const [fieldName, value] of entry.fields) {
         const field = schemaFields.get(fieldName);
         if (field) {
-          try {
-            // Convert the value to the expected type
-            const convertedValue = this.dataTypeConverter.convertValue(value, field);
-            // Update the entry with converted value
-            entry.fields.set(fieldName, convertedValue);
-          } catch (error) {
-            // Type conversion failed - add error
+          if (!this.typeValidator.validateType(value, field.type, field.format)) {
+            // Leave the original value in place rather than a fabricated default
+            const position = entry.fieldPositions?.get(fieldName);
             errors.push({
-              type: 'TYPE_MISMATCH' as any,
-              message: `Failed to convert '${value}' to ${field.type}`,
-              lineNumber: entry.lineNumber || 0,
+              type: ErrorType.TYPE_MISMATCH,
+              message: `Type mismatch for field '${fieldName}': expected ${field.type}, got '${value}'`,
+              lineNumber: position?.line ?? entry.lineNumber ?? 0,
+              ...fieldValueSpan(entry, fieldName),
               schemaName: schema.name,
-              fieldName: fieldName
+              fieldName: fieldName,
+              value: String(value),
+              expectedType: field.type
             });
+            continue;
           }
+
+          // Convert the value to the expected type
+          entry.fields.set(fieldName, this.dataTypeConverter.convertValue(value, field));
         }
       }
     }
@@ -180,6 +277,642 @@ export class MarkdownDataExtensionParser implements MarkdownDataParser {
     this.schemaCache.clear();
   }
 
+  private runParse(
+    markdown: string, 
+    options?: ParseOptions, 
+    externalSources?: Map<string, ExternalSchemaSource>
+  ): ParseResult {
+    const mergedOptions = { ...createDefaultParseOptions(), ...options };
+    const state = this.createState(mergedOptions, externalSources);
+
+    return this.parseDocument(markdown, state, () => this.tokenizeChunks(markdown));
+  }
+
+  private createState(options: ParseOptions, externalSources?: Map<string, ExternalSchemaSource>): ParserState {
+    return {
+      currentLine: 1,
+      currentColumn: 1,
+      inBlock: false,
+      blockCounter: 0,
+      schemas: new Map(),
+      dataSchemas: new Map(),
+      data: new Map(),
+      blocks: [],
+      errors: [],
+      warnings: [],
+      options,
+      ...(externalSources && { externalSources })
+    };
+  }
+
+  /**
+   * Parse the chunks of a document in order, reusing the output of the chunks
+   * in `reused` whose data blocks still resolve to the same schemas
+   */
+  private parseDocument(
+    markdown: string,
+    state: ParserState,
+    getChunks: () => { chunks: ParsedChunk[]; reused: Set<ParsedChunk> }
+  ): ParseResult {
+    const startTime = Date.now();
+    let chunks: ParsedChunk[] = [];
+
+    if (state.options.schemaCache) {
+      this.schemaCache = state.options.schemaCache;
+    }
+
+    try {
+      const next = getChunks();
+      chunks = next.chunks;
+
+      // Tokenization errors come first, as when the document was tokenized in one pass
+      for (const chunk of chunks) {
+        state.errors.push(...chunk.tokenErrors);
+      }
+
+      for (const chunk of chunks) {
+        if (!next.reused.has(chunk) || !this.canReuseChunk(chunk, state)) {
+          this.parseChunk(chunk, state);
+        }
+        this.applyChunk(chunk, state);
+      }
+
+      // Note: Data validation is left to consuming applications
+      // This parser focuses on structure and type conversion only
+
+    } catch (error) {
+      chunks = [];
+      this.addErrorWithContext(state, {
+        type: ErrorType.SYNTAX_ERROR,
+        message: `Parser error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        lineNumber: state.currentLine
+      });
+    }
+
+    // Keys are unique across every data block of a schema, so indexes and
+    // references wait for the whole document
+    const indexes = this.buildIndexes(state);
+    state.errors.push(...this.referenceResolver.resolveReferences(
+      new Map([...state.schemas, ...state.dataSchemas]),
+      state.data,
+      indexes,
+      Boolean(state.options.validateData)
+    ));
+    this.addLineSpans([...state.errors, ...state.warnings], chunks.flatMap(chunk => chunk.tokens));
+
+    const parseTime = Date.now() - startTime;
+    const totalDataEntries = Array.from(state.data.values()).reduce((sum, entries) => sum + entries.length, 0);
+    
+    // Generate block-grouped data and totals
+    const blockData = this.generateBlockData(state.blocks);
+
+    const result: ParseResult = {
+      schemas: state.schemas,
+      data: state.data,
+      blockData,
+      indexes,
+      errors: state.errors,
+      warnings: state.warnings,
+      metadata: {
+        parseTime,
+        totalLines: markdown.split('\n').length,
+        schemasFound: state.schemas.size,
+        dataEntriesFound: totalDataEntries
+      }
+    };
+
+    snapshots.set(result, {
+      text: markdown,
+      chunks,
+      options: state.options,
+      ...(state.externalSources && { externalSources: state.externalSources })
+    });
+    return result;
+  }
+
+  private tokenizeChunks(markdown: string): { chunks: ParsedChunk[]; reused: Set<ParsedChunk> } {
+    const tokenizeResult = new Tokenizer(markdown).tokenize();
+    const chunks = this.splitChunks(tokenizeResult.tokens, tokenizeResult.errors, 0, markdown.length, 1);
+    return { chunks, reused: new Set() };
+  }
+
+  /**
+   * Re-tokenize the chunks a change touches and move the chunks after it
+   * The window of re-tokenized chunks grows until it ends where a chunk would
+   * end in the new text, e.g. when the change removed a block's `!#`
+   */
+  private updateChunks(
+    previous: ParsedChunk[],
+    markdown: string,
+    change: TextChange
+  ): { chunks: ParsedChunk[]; reused: Set<ParsedChunk> } {
+    const changeEnd = change.offset + change.deletedLength;
+    const delta = change.insertedText.length - change.deletedLength;
+    const containing = (offset: number) => {
+      const index = previous.findIndex(chunk => offset < chunk.end);
+      return index === -1 ? previous.length - 1 : index;
+    };
+
+    const first = containing(change.offset);
+    let last = containing(changeEnd > change.offset ? changeEnd - 1 : change.offset);
+    const start = previous[first]!;
+    let window: ParsedChunk[] | null = null;
+
+    while (!window) {
+      const atEnd = last === previous.length - 1;
+      window = this.tokenizeWindow(markdown, start.start, previous[last]!.end + delta, start.startLine, atEnd);
+      if (!window) last++;
+    }
+
+    const replaced = previous.slice(first, last + 1);
+    const after = previous.slice(last + 1);
+    const countBlocks = (chunks: ParsedChunk[]) => chunks.reduce((sum, chunk) => sum + chunk.blocks.length, 0);
+    const shift = {
+      lines: (window[window.length - 1]?.endLine ?? start.startLine) - previous[last]!.endLine,
+      offset: delta,
+      blocks: countBlocks(window) - countBlocks(replaced)
+    };
+
+    if (shift.lines !== 0 || shift.offset !== 0 || shift.blocks !== 0) {
+      after.forEach(chunk => shiftChunk(chunk, shift));
+    }
+
+    const before = previous.slice(0, first);
+    return {
+      chunks: [...before, ...window, ...after],
+      reused: new Set([...before, ...after])
+    };
+  }
+
+  /**
+   * Tokenize part of the text from a chunk boundary, returning null when it does
+   * not end on a chunk boundary and the following chunk must be included
+   */
+  private tokenizeWindow(
+    markdown: string,
+    start: number,
+    end: number,
+    startLine: number,
+    atEnd: boolean
+  ): ParsedChunk[] | null {
+    const chunks = this.tokenizeRange(markdown.slice(start, end), start, startLine, atEnd);
+    if (atEnd) return chunks;
+
+    const tail = chunks.pop();
+    return tail && tail.tokens.length === 0 && tail.start === end ? chunks : null;
+  }
+
+  /**
+   * Tokenize text that starts on a chunk boundary into chunks; the last chunk
+   * runs to the end of the text
+   */
+  private tokenizeRange(text: string, start: number, startLine: number, atEnd: boolean): ParsedChunk[] {
+    const tokenizeResult = new Tokenizer(text).tokenize();
+    const shift = { lines: startLine - 1, offset: start, blocks: 0 };
+
+    tokenizeResult.tokens.forEach(token => shiftToken(token, shift));
+    tokenizeResult.errors.forEach(error => shiftProblem(error, shift));
+    if (!atEnd) {
+      // The end of the text is not the end of the document
+      tokenizeResult.tokens.pop();
+    }
+
+    return this.splitChunks(tokenizeResult.tokens, tokenizeResult.errors, start, start + text.length, startLine);
+  }
+
+  /**
+   * Take the complete chunks from the front of a stream buffer
+   * Before the end of the stream, the last chunk may still grow and stays in
+   * the buffer, except for whole lines of text with no block started in them
+   */
+  private takeChunks(buffer: StreamBuffer, atEnd: boolean): ParsedChunk[] {
+    const chunks = this.tokenizeRange(buffer.text, buffer.start, buffer.line, atEnd);
+
+    if (!atEnd) {
+      const tail = chunks.pop()!;
+      const newline = tail.tokens.map(token => token.type).lastIndexOf(TokenType.NEWLINE);
+      const lines = tail.tokens.slice(0, newline + 1);
+
+      if (newline !== -1 && !lines.some(token => token.type === TokenType.BLOCK_START)) {
+        const last = lines[lines.length - 1]!;
+        const text = createChunk(tail.start, tail.startLine);
+        text.tokens = lines;
+        text.end = last.position.offset + 1;
+        text.endLine = last.position.line + 1;
+        text.tokenErrors = tail.tokenErrors.filter(error => (error.lineNumber ?? tail.startLine) < text.endLine);
+        chunks.push(text);
+      }
+    }
+
+    const last = chunks[chunks.length - 1];
+    if (last) {
+      buffer.text = buffer.text.slice(last.end - buffer.start);
+      buffer.start = last.end;
+      buffer.line = last.endLine;
+    }
+    return chunks;
+  }
+
+  /**
+   * Parse one chunk of a stream, loading the external schemas its data block
+   * needs first, and list the events it produces
+   */
+  private async streamChunk(chunk: ParsedChunk, state: ParserState): Promise<ParseEvent[]> {
+    const events: ParseEvent[] = [];
+    const sources = state.externalSources;
+
+    if (sources) {
+      const resolver = this.getSchemaResolver(state.options);
+      const references = chunk.blocks.filter(blockInfo => {
+        if (blockInfo.type !== 'data' || !blockInfo.externalPath) return false;
+        const loaded = sources.get(resolver.resolvePath(blockInfo.externalPath, state.options.sourceFile));
+        return !loaded || (!loaded.error && !loaded.schemas.has(blockInfo.schemaName));
+      });
+
+      if (references.length > 0) {
+        const referenceErrors: ParseError[] = [];
+        const loaded = await this.loadExternalSources(references, state.options, [], referenceErrors);
+        loaded.forEach((source, path) => sources.set(path, source));
+        this.addLineSpans(this.inDocument(referenceErrors, state.options), chunk.tokens);
+        events.push(...referenceErrors.map(error => ({ type: 'error' as const, error })));
+      }
+    }
+
+    this.parseChunk(chunk, state);
+    state.blockCounter += chunk.blocks.length;
+    this.addLineSpans([...chunk.tokenErrors, ...chunk.errors, ...chunk.warnings], chunk.tokens);
+
+    for (const schema of chunk.schemas.values()) {
+      events.push({ type: 'schema', schema });
+    }
+    for (const block of chunk.dataBlocks) {
+      const schema = chunk.dataSchemas.get(block.schemaName);
+      if (schema) events.push({ type: 'data', block, schema });
+    }
+    events.push(
+      ...[...chunk.tokenErrors, ...chunk.errors].map(error => ({ type: 'error' as const, error })),
+      ...chunk.warnings.map(warning => ({ type: 'warning' as const, warning }))
+    );
+
+    return events;
+  }
+
+  /**
+   * Split tokens into chunks after the line of each block's closing `!#`,
+   * opening and closing blocks the way parseBlocks() does
+   * A chunk only ends where both the parser and the tokenizer are outside any block,
+   * so a block opened after `!#` on the same line stays in the chunk
+   */
+  private splitChunks(
+    tokens: Token[],
+    tokenErrors: ParseError[],
+    start: number,
+    end: number,
+    startLine: number
+  ): ParsedChunk[] {
+    const chunks: ParsedChunk[] = [];
+    let current = createChunk(start, startLine);
+    let open = false;
+    let closed = false;
+    // The tokenizer reads field syntax after any data or datadef start until the next `!#`
+    let tokenizerOpen = false;
+
+    for (const token of tokens) {
+      current.tokens.push(token);
+
+      if (token.type === TokenType.BLOCK_START) {
+        tokenizerOpen = tokenizerOpen || /^(data|datadef)(\s|$)/.test(token.value);
+        const blockInfo = open ? null : this.parseBlockStart(token);
+        if (blockInfo) {
+          current.blocks.push(blockInfo);
+          open = true;
+        }
+      } else if (token.type === TokenType.BLOCK_END) {
+        tokenizerOpen = false;
+        closed = closed || open;
+        open = false;
+      } else if (token.type === TokenType.NEWLINE && closed && !open && !tokenizerOpen) {
+        closed = false;
+        current.end = token.position.offset + 1;
+        current.endLine = token.position.line + 1;
+        chunks.push(current);
+        current = createChunk(current.end, current.endLine);
+      }
+    }
+
+    const eof = current.tokens[current.tokens.length - 1];
+    current.end = end;
+    current.endLine = eof?.type === TokenType.EOF ? eof.position.line : current.startLine;
+    chunks.push(current);
+
+    for (const error of tokenErrors) {
+      const line = error.lineNumber ?? startLine;
+      const chunk = chunks.find((c, i) => line < c.endLine || i === chunks.length - 1);
+      chunk?.tokenErrors.push(error);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Whether a reused chunk's data blocks would resolve to the schemas they were parsed against
+   */
+  private canReuseChunk(chunk: ParsedChunk, state: ParserState): boolean {
+    return chunk.blocks.every(blockInfo =>
+      blockInfo.type === 'datadef' || this.findBlockSchema(blockInfo, state) === chunk.dataSchemas.get(blockInfo.schemaName)
+    );
+  }
+
+  private findBlockSchema(blockInfo: BlockInfo, state: ParserState): DataSchema | undefined {
+    if (blockInfo.externalPath && state.options.loadExternalSchemas && state.externalSources) {
+      const resolvedPath = this.getSchemaResolver(state.options).resolvePath(blockInfo.externalPath, state.options.sourceFile);
+      return state.externalSources.get(resolvedPath)?.schemas.get(blockInfo.schemaName);
+    }
+    return state.schemas.get(blockInfo.schemaName) || state.options.schemaRegistry?.get(blockInfo.schemaName);
+  }
+
+  /**
+   * Parse the blocks of a chunk, keeping its output on the chunk for later reuse
+   */
+  private parseChunk(chunk: ParsedChunk, state: ParserState): void {
+    const chunkState: ParserState = {
+      ...state,
+      inBlock: false,
+      dataSchemas: new Map(),
+      data: new Map(),
+      blocks: [],
+      errors: [],
+      warnings: []
+    };
+    const definedBefore = new Map(
+      chunk.blocks.filter(b => b.type === 'datadef').map(b => [b.schemaName, state.schemas.get(b.schemaName)])
+    );
+
+    try {
+      this.parseBlocks(chunk.tokens, chunkState);
+    } finally {
+      state.currentLine = chunkState.currentLine;
+    }
+
+    // Schemas are defined straight into the shared map, so compare with what was there
+    chunk.schemas = new Map();
+    for (const [name, before] of definedBefore) {
+      const schema = state.schemas.get(name);
+      if (schema && schema !== before) chunk.schemas.set(name, schema);
+    }
+    chunk.dataSchemas = chunkState.dataSchemas;
+    chunk.data = chunkState.data;
+    chunk.dataBlocks = chunkState.blocks;
+    chunk.errors = chunkState.errors;
+    chunk.warnings = chunkState.warnings;
+  }
+
+  private applyChunk(chunk: ParsedChunk, state: ParserState): void {
+    for (const [name, schema] of chunk.schemas) {
+      state.schemas.set(name, schema);
+      this.schemaCache.set(name, schema);
+    }
+    for (const [name, schema] of chunk.dataSchemas) {
+      state.dataSchemas.set(name, schema);
+    }
+    for (const [name, entries] of chunk.data) {
+      state.data.set(name, [...(state.data.get(name) || []), ...entries]);
+    }
+
+    state.blocks.push(...chunk.dataBlocks);
+    state.blockCounter += chunk.blocks.length;
+    state.errors.push(...chunk.errors);
+    state.warnings.push(...chunk.warnings);
+  }
+
+  /**
+   * Collect data blocks that reference an external schema file
+   */
+  private findExternalReferences(markdown: string): BlockInfo[] {
+    const { tokens } = new Tokenizer(markdown).tokenize();
+    const references: BlockInfo[] = [];
+
+    for (const token of tokens) {
+      if (token.type !== TokenType.BLOCK_START) continue;
+      const blockInfo = this.parseBlockStart(token);
+      if (blockInfo && blockInfo.type === 'data' && blockInfo.externalPath) {
+        references.push(blockInfo);
+      }
+    }
+
+    return references;
+  }
+
+  private getSchemaResolver(options: ParseOptions): SchemaResolver {
+    return options.schemaResolver || new FileSystemSchemaResolver(options.basePath);
+  }
+
+  private getExternalCacheKey(resolvedPath: string, schemaName: string): string {
+    return `${resolvedPath}#${schemaName}`;
+  }
+
+  /**
+   * Load every external source referenced by these data blocks,
+   * following references inside those sources up to options.maxReferenceDepth
+   */
+  private async loadExternalSources(
+    blocks: BlockInfo[],
+    options: ParseOptions,
+    chain: ReferenceLink[],
+    referenceErrors: ParseError[]
+  ): Promise<Map<string, ExternalSchemaSource>> {
+    const externalSources = new Map<string, ExternalSchemaSource>();
+    const resolver = this.getSchemaResolver(options);
+    const fromPath = options.sourceFile || '<input>';
+
+    // Group referenced schema names by the source they resolve to
+    const references = new Map<string, { externalPath: string; lineNumber: number; names: Set<string> }>();
+    for (const blockInfo of blocks) {
+      if (!blockInfo.externalPath) continue;
+      const resolvedPath = resolver.resolvePath(blockInfo.externalPath, options.sourceFile);
+      const reference = references.get(resolvedPath) || {
+        externalPath: blockInfo.externalPath,
+        lineNumber: blockInfo.startLine,
+        names: new Set<string>()
+      };
+      reference.names.add(blockInfo.schemaName);
+      references.set(resolvedPath, reference);
+    }
+
+    for (const [resolvedPath, { externalPath, lineNumber, names }] of references) {
+      const referenceChain = [...chain, { path: fromPath, lineNumber }];
+      const cycleStart = referenceChain.findIndex(link => link.path === resolvedPath);
+
+      if (cycleStart !== -1) {
+        const cycle = [...referenceChain.slice(cycleStart), { path: resolvedPath }];
+        const message = `Circular external schema reference: ${this.formatReferenceChain(cycle)}`;
+        referenceErrors.push({
+          type: ErrorType.CIRCULAR_REFERENCE,
+          message,
+          lineNumber,
+          schemaName: Array.from(names).join(', '),
+          sourceFile: fromPath,
+          referenceChain: cycle
+        });
+        externalSources.set(resolvedPath, { path: resolvedPath, schemas: new Map(), error: message });
+        continue;
+      }
+
+      const maxDepth = options.maxReferenceDepth ?? Infinity;
+      if (chain.length >= maxDepth) {
+        const message = `Maximum external reference depth (${maxDepth}) exceeded: ${this.formatReferenceChain([...referenceChain, { path: resolvedPath }])}`;
+        referenceErrors.push({
+          type: ErrorType.EXTERNAL_REFERENCE_FAILED,
+          message,
+          lineNumber,
+          sourceFile: fromPath,
+          referenceChain: [...referenceChain, { path: resolvedPath }]
+        });
+        externalSources.set(resolvedPath, { path: resolvedPath, schemas: new Map(), error: message });
+        continue;
+      }
+
+      const cachedSchemas = new Map<string, DataSchema>();
+      for (const name of names) {
+        const cached = this.schemaCache.get(this.getExternalCacheKey(resolvedPath, name));
+        if (cached) {
+          cachedSchemas.set(name, cached);
+        }
+      }
+
+      externalSources.set(
+        resolvedPath,
+        cachedSchemas.size === names.size
+          ? { path: resolvedPath, schemas: cachedSchemas }
+          : await this.loadExternalSource(externalPath, resolvedPath, options, referenceChain, referenceErrors)
+      );
+    }
+
+    return externalSources;
+  }
+
+  /**
+   * Load a single external source and collect the schemas it makes available:
+   * its own datadef blocks plus those it pulls in from further external files
+   */
+  private async loadExternalSource(
+    externalPath: string,
+    resolvedPath: string,
+    options: ParseOptions,
+    chain: ReferenceLink[],
+    referenceErrors: ParseError[]
+  ): Promise<ExternalSchemaSource> {
+    let source: string | DataSchema;
+    try {
+      source = await this.getSchemaResolver(options).resolve(externalPath, options.sourceFile);
+    } catch (error) {
+      return {
+        path: resolvedPath,
+        schemas: new Map(),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    let schemas: Map<string, DataSchema>;
+    if (typeof source === 'string') {
+      // Nested references resolve relative to the external file itself
+      const { basePath: _basePath, ...sourceOptions } = options;
+      const nestedOptions: ParseOptions = {
+        ...sourceOptions,
+        sourceFile: resolvedPath,
+        schemaCache: this.schemaCache
+      };
+      const nestedSources = await this.loadExternalSources(this.findExternalReferences(source), nestedOptions, chain, referenceErrors);
+      schemas = new Map(this.runParse(source, nestedOptions, nestedSources).schemas);
+
+      for (const nestedSource of nestedSources.values()) {
+        for (const [name, schema] of nestedSource.schemas) {
+          if (!schemas.has(name)) {
+            schemas.set(name, schema);
+          }
+        }
+      }
+    } else {
+      schemas = new Map([[source.name, { ...source, sourcePath: source.sourcePath || resolvedPath }]]);
+    }
+
+    for (const [name, schema] of schemas) {
+      this.schemaCache.set(this.getExternalCacheKey(resolvedPath, name), schema);
+    }
+
+    return { path: resolvedPath, schemas };
+  }
+
+  private formatReferenceChain(chain: ReferenceLink[]): string {
+    return chain
+      .map(link => link.lineNumber !== undefined ? `${link.path}:${link.lineNumber}` : link.path)
+      .join(' → ');
+  }
+
+  /**
+   * Look up the schema for a data block from its preloaded external source,
+   * reporting EXTERNAL_REFERENCE_FAILED when the file or schema is missing
+   */
+  private resolveExternalSchema(blockInfo: BlockInfo, state: ParserState): DataSchema | undefined {
+    const resolver = this.getSchemaResolver(state.options);
+    const resolvedPath = resolver.resolvePath(blockInfo.externalPath || '', state.options.sourceFile);
+    const source = state.externalSources?.get(resolvedPath);
+
+    if (!source || source.error) {
+      this.addErrorWithContext(state, {
+        type: ErrorType.EXTERNAL_REFERENCE_FAILED,
+        message: `Failed to load external schema file '${resolvedPath}': ${source?.error || 'file not loaded'}`,
+        lineNumber: blockInfo.startLine,
+        schemaName: blockInfo.schemaName,
+        sourceFile: resolvedPath
+      });
+      return undefined;
+    }
+
+    const schema = source.schemas.get(blockInfo.schemaName);
+    if (!schema) {
+      this.addErrorWithContext(state, {
+        type: ErrorType.EXTERNAL_REFERENCE_FAILED,
+        message: `Schema '${blockInfo.schemaName}' not found in external file '${resolvedPath}'`,
+        lineNumber: blockInfo.startLine,
+        schemaName: blockInfo.schemaName,
+        sourceFile: resolvedPath
+      });
+    }
+
+    return schema;
+  }
+
+  /**
+   * Give problems reported against a whole line the span of that line's content
+   */
+  private addLineSpans(problems: Array<ParseError | ParseWarning>, tokens: Token[]): void {
+    const lines = new Map<number, SourceSpan>();
+    for (const token of tokens) {
+      if (token.type === TokenType.NEWLINE || token.type === TokenType.EOF) continue;
+      const span = tokenSpan(token);
+      const line = lines.get(span.lineNumber);
+      lines.set(span.lineNumber, line
+        ? { ...line, endLineNumber: span.endLineNumber, endColumnNumber: span.endColumnNumber }
+        : span);
+    }
+
+    for (const problem of problems) {
+      const span = problem.columnNumber === undefined && problem.lineNumber !== undefined
+        ? lines.get(problem.lineNumber)
+        : undefined;
+      if (span) Object.assign(problem, span);
+    }
+  }
+
+  /**
+   * Reference errors raised by this document rather than by the external files it loads
+   */
+  private inDocument(referenceErrors: ParseError[], options: ParseOptions): ParseError[] {
+    const fromPath = options.sourceFile || '<input>';
+    return referenceErrors.filter(error => !error.sourceFile || error.sourceFile === fromPath);
+  }
+
   private addErrorWithContext(
     state: ParserState, 
     error: Omit<ParseError, 'blockNumber' | 'blockType'>
@@ -359,7 +1092,9 @@ export class MarkdownDataExtensionParser implements MarkdownDataParser {
       ...(state.currentBlockNumber !== undefined && { blockNumber: state.currentBlockNumber }),
       ...(state.currentBlockType !== undefined && { blockType: state.currentBlockType })
     };
-    const result = schemaParser.parseSchema(blockInfo.schemaName, blockInfo.startLine, blockContext);
+    const result = schemaParser.parseSchema(
+      blockInfo.schemaName, blockInfo.startLine, blockContext, Boolean(state.options.recoverSchemas)
+    );
     
     if (result.schema) {
       if (state.options.sourceFile) {
@@ -379,12 +1114,21 @@ export class MarkdownDataExtensionParser implements MarkdownDataParser {
   }
 
   private processDataEntry(blockInfo: BlockInfo, tokens: Token[], state: ParserState): void {
-    let schema = state.schemas.get(blockInfo.schemaName);
+    let schema: DataSchema | undefined;
+    
+    if (blockInfo.externalPath && state.options.loadExternalSchemas && state.externalSources) {
+      // External sources are preloaded by parseAsync/parseFile
+      schema = this.resolveExternalSchema(blockInfo, state);
+      if (!schema) return;
+    } else {
+      // The document's own definition comes before the registry's
+      schema = state.schemas.get(blockInfo.schemaName) || state.options.schemaRegistry?.get(blockInfo.schemaName);
+    }
     
     // Check for external schema reference but don't load synchronously
     if (!schema && blockInfo.externalPath && state.options.loadExternalSchemas) {
       this.addWarningWithContext(state, {
-        message: `External schema reference '${blockInfo.externalPath}' - external loading not supported in synchronous parsing`,
+        message: `External schema reference '${blockInfo.externalPath}' - external loading not supported in synchronous parsing, use parseAsync or parseFile`,
         lineNumber: blockInfo.startLine,
         schemaName: blockInfo.schemaName
       });
@@ -400,6 +1144,8 @@ export class MarkdownDataExtensionParser implements MarkdownDataParser {
       return;
     }
 
+    state.dataSchemas.set(blockInfo.schemaName, schema);
+
     const blockContext = {
       ...(state.currentBlockNumber !== undefined && { blockNumber: state.currentBlockNumber }),
       ...(state.currentBlockType !== undefined && { blockType: state.currentBlockType })
@@ -428,6 +1174,53 @@ export class MarkdownDataExtensionParser implements MarkdownDataParser {
     }
     
     state.errors.push(...result.errors);
+
+    if (state.options.validateData) {
+      state.errors.push(...this.recordValidator.validateRecords(enhancedData, schema, blockContext));
+      state.warnings.push(...this.recordValidator.findAmbiguousDates(enhancedData, schema, blockContext));
+    }
+
+    if (state.options.typedValues) {
+      this.convertEntryValues(enhancedData, schema);
+    }
+  }
+
+  /**
+   * Replace raw cell text with native values, keeping the text in rawFields
+   */
+  private convertEntryValues(entries: DataEntry[], schema: DataSchema): void {
+    const schemaFields = new Map(schema.fields.map(f => [f.name, f]));
+
+    for (const entry of entries) {
+      entry.rawFields = new Map(entry.fields);
+
+      for (const [fieldName, value] of entry.fields) {
+        const field = schemaFields.get(fieldName);
+        if (field) {
+          entry.fields.set(fieldName, this.dataTypeConverter.convertTypedValue(value, field));
+        }
+      }
+    }
+  }
+
+  /**
+   * Build each schema's unique indexes over all of its records, reporting
+   * duplicate keys when data validation is on
+   */
+  private buildIndexes(state: ParserState): Map<string, Map<string, RecordIndex>> {
+    const indexes = new Map<string, Map<string, RecordIndex>>();
+    const schemas = new Map([...state.schemas, ...state.dataSchemas]);
+
+    for (const [schemaName, schema] of schemas) {
+      const result = this.indexBuilder.buildIndexes(schema, state.data.get(schemaName) || []);
+      indexes.set(schemaName, result.indexes);
+
+      if (state.options.validateData) {
+        state.errors.push(...result.errors);
+      }
+    }
+
+    return indexes;
   }
 
   private generateBlockData(blocks: import('./types.js').DataBlock[]): import('./types.js').BlockGroupedData {
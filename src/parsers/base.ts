@@ -3,7 +3,10 @@ import {
   DataSchema, 
   ParseError, 
   ErrorType, 
+  QuickFix,
+  SourceSpan,
   Token, 
+  TokenPosition,
   TokenType 
 } from '../types.js';
 import { formatErrorMessage } from '../utils.js';
@@ -93,16 +96,18 @@ export abstract class BaseParser {
   /**
    * Add a standardized error to the error collection
    */
-  protected addError(type: ErrorType, lineNumber: number, details: { 
+  protected addError(type: ErrorType, span: SourceSpan, details: { 
     message?: string; 
     fieldName?: string; 
     schemaName?: string; 
+    fixes?: QuickFix[];
   } = {}): void {
     this.errors.push({
       type,
       message: details.message || formatErrorMessage(type, details),
-      lineNumber,
+      ...span,
       ...(details.fieldName && { fieldName: details.fieldName }),
+      ...(details.fixes && details.fixes.length > 0 && { fixes: details.fixes }),
       ...(((details.schemaName !== undefined ? details.schemaName : this.schemaName) !== undefined) && { 
         schemaName: details.schemaName !== undefined ? details.schemaName : this.schemaName 
       }),
@@ -114,12 +119,29 @@ export abstract class BaseParser {
   /**
    * Create a data entry with the given fields and metadata
    */
-  protected createDataEntry(fields: Map<string, unknown>, lineNumber: number, recordIndex: number): DataEntry {
+  protected createDataEntry(
+    fields: Map<string, unknown>, 
+    lineNumber: number, 
+    recordIndex: number,
+    fieldPositions?: Map<string, TokenPosition>
+  ): DataEntry {
     return {
       fields,
       lineNumber,
       recordIndex,
-      schemaName: this.schemaName
+      schemaName: this.schemaName,
+      ...(fieldPositions && { fieldPositions })
+    };
+  }
+
+  /**
+   * Position of a character within a single-line token's value
+   */
+  protected offsetPosition(position: TokenPosition, delta: number): TokenPosition {
+    return {
+      line: position.line,
+      column: position.column + delta,
+      offset: position.offset + delta
     };
   }
 
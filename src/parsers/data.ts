@@ -3,10 +3,11 @@ import {
   DataSchema, 
   ParseError, 
   ErrorType, 
+  SourceSpan,
   Token, 
   TokenType 
 } from '../types.js';
-import { formatErrorMessage } from '../utils.js';
+import { formatErrorMessage, tokenSpan } from '../utils.js';
 import { HeaderValidator } from '../validation/headers.js';
 import { TableParser } from './table.js';
 import { FreeformParser } from './freeform.js';
@@ -51,7 +52,8 @@ export class DataParser {
       entries = freeformParser.parseData();
       this.errors.push(...freeformParser.getErrors());
     } else {
-      this.addError(ErrorType.SYNTAX_ERROR, this.getCurrentLine(), {
+      const content = this.tokens.find(token => token.type !== TokenType.NEWLINE && token.type !== TokenType.COMMENT);
+      this.addError(ErrorType.SYNTAX_ERROR, content ? tokenSpan(content) : this.getCurrentLine(), {
         message: 'Unable to determine data format (tabular or free-form)'
       });
     }
@@ -83,7 +85,7 @@ export class DataParser {
       } else if (token.type === TokenType.TABLE_ROW) {
         // Table row without header might indicate malformed table
         if (!hasTableHeader) {
-          this.addError(ErrorType.SYNTAX_ERROR, token.position.line, {
+          this.addError(ErrorType.SYNTAX_ERROR, tokenSpan(token), {
             message: 'Table row found without table header'
           });
           return 'unknown';
@@ -114,9 +116,9 @@ export class DataParser {
   }
 
   /**
-   * Add a standardized error to the error collection
+   * Add a standardized error to the error collection, at a span or, with no text to point at, a line
    */
-  private addError(type: ErrorType, lineNumber: number, details: { 
+  private addError(type: ErrorType, location: SourceSpan | number, details: { 
     message?: string; 
     fieldName?: string; 
     schemaName?: string; 
@@ -124,7 +126,7 @@ export class DataParser {
     this.errors.push({
       type,
       message: details.message || formatErrorMessage(type, details),
-      lineNumber,
+      ...(typeof location === 'number' ? { lineNumber: location } : location),
       ...(details.fieldName && { fieldName: details.fieldName }),
       ...(((details.schemaName !== undefined ? details.schemaName : this.schemaName) !== undefined) && { 
         schemaName: details.schemaName !== undefined ? details.schemaName : this.schemaName 
@@ -3,8 +3,10 @@ import {
   DataSchema, 
   ErrorType, 
   Token, 
+  TokenPosition,
   TokenType 
 } from '../types.js';
+import { createNameFixes, createSpan, tokenSpan } from '../utils.js';
 import { BaseParser } from './base.js';
 
 /**
@@ -28,6 +30,7 @@ export class FreeformParser extends BaseParser {
   parseData(): DataEntry[] {
     const entries: DataEntry[] = [];
     let currentFields = new Map<string, unknown>();
+    let currentPositions = new Map<string, TokenPosition>();
     let recordIndex = 0;
     let currentRecordStartLine = this.getCurrentLine();
 
@@ -35,24 +38,26 @@ export class FreeformParser extends BaseParser {
       const token = this.advance();
       
       if (token.type === TokenType.FIELD_VALUE) {
-        const fieldValue = this.parseFieldValue(token.value, token.position.line);
+        const fieldValue = this.parseFieldValue(token);
         if (fieldValue) {
           currentFields.set(fieldValue.name, fieldValue.value);
+          currentPositions.set(fieldValue.name, this.getValuePosition(token, fieldValue.valueIndex));
         }
       } else if (token.type === TokenType.RECORD_SEPARATOR) {
         // End of current record - create DataEntry if we have fields
         if (currentFields.size > 0) {
-          const entry = this.createDataEntry(currentFields, currentRecordStartLine, recordIndex);
+          const entry = this.createDataEntry(currentFields, currentRecordStartLine, recordIndex, currentPositions);
           entries.push(entry);
           recordIndex++;
           currentFields = new Map();
+          currentPositions = new Map();
           currentRecordStartLine = token.position.line;
         }
       } else if (token.type === TokenType.NEWLINE || token.type === TokenType.COMMENT) {
         // Skip whitespace and comments
         continue;
       } else {
-        this.addError(ErrorType.SYNTAX_ERROR, token.position.line, {
+        this.addError(ErrorType.SYNTAX_ERROR, tokenSpan(token), {
           message: 'Unexpected token in freeform data - expected field value or record separator'
         });
       }
@@ -60,7 +65,7 @@ export class FreeformParser extends BaseParser {
 
     // Handle the last record if there are remaining fields
     if (currentFields.size > 0) {
-      const entry = this.createDataEntry(currentFields, currentRecordStartLine, recordIndex);
+      const entry = this.createDataEntry(currentFields, currentRecordStartLine, recordIndex, currentPositions);
       entries.push(entry);
     }
 
@@ -70,31 +75,36 @@ export class FreeformParser extends BaseParser {
   /**
    * Parse a field value token into name-value pair
    */
-  private parseFieldValue(fieldValueLine: string, lineNumber: number): { name: string; value: unknown } | null {
+  private parseFieldValue(token: Token): { name: string; value: unknown; valueIndex: number } | null {
     // Parse field value format: "fieldname value" or "fieldname: value"
+    const fieldValueLine = token.value;
     let name: string;
     let value: string;
+    let valueIndex: number;
     
     // Try colon separator first
     const colonIndex = fieldValueLine.indexOf(':');
     if (colonIndex !== -1) {
       name = fieldValueLine.substring(0, colonIndex).trim();
       value = fieldValueLine.substring(colonIndex + 1).trim();
+      valueIndex = this.findValueIndex(fieldValueLine, colonIndex + 1);
     } else {
       // Fallback to first space as separator
       const spaceIndex = fieldValueLine.indexOf(' ');
       if (spaceIndex !== -1) {
         name = fieldValueLine.substring(0, spaceIndex).trim();
         value = fieldValueLine.substring(spaceIndex + 1).trim();
+        valueIndex = this.findValueIndex(fieldValueLine, spaceIndex + 1);
       } else {
         // No separator found - treat entire line as field name with empty value
         name = fieldValueLine.trim();
         value = '';
+        valueIndex = fieldValueLine.length;
       }
     }
 
     if (!name) {
-      this.addError(ErrorType.INVALID_FREEFORM_SYNTAX, lineNumber, {
+      this.addError(ErrorType.INVALID_FREEFORM_SYNTAX, tokenSpan(token), {
         message: 'Empty field name in field value assignment'
       });
       return null;
@@ -102,9 +112,19 @@ export class FreeformParser extends BaseParser {
 
     // Validate field name exists in schema
     const schemaField = this.schema.fields.find(f => f.name === name);
+    if (!schemaField && this.schema.omittedFields?.includes(name)) {
+      // Left out of a partial schema; the error is reported at the field's definition
+      return null;
+    }
     if (!schemaField) {
-      this.addError(ErrorType.INVALID_FIELD_NAME, lineNumber, {
+      // The `!name` marker
+      this.addError(ErrorType.INVALID_FIELD_NAME, createSpan(token.position, 1 + name.length), {
         fieldName: name,
+        fixes: createNameFixes(name, [...this.schema.fields.map(f => f.name), ...(this.schema.omittedFields ?? [])], {
+          ...token.position,
+          column: token.position.column + 1,
+          offset: token.position.offset + 1
+        }),
         message: `Field '${name}' does not exist in schema '${this.schemaName}'`
       });
       return null;
@@ -113,6 +133,29 @@ export class FreeformParser extends BaseParser {
     // Convert empty string to null for consistency
     const finalValue = value === '' ? null : value;
     
-    return { name, value: finalValue };
+    return { name, value: finalValue, valueIndex };
+  }
+
+  /**
+   * Index of the first non-space character at or after start
+   */
+  private findValueIndex(fieldValueLine: string, start: number): number {
+    let index = start;
+    while (index < fieldValueLine.length && fieldValueLine[index] === ' ') {
+      index++;
+    }
+    return index;
+  }
+
+  /**
+   * Map an index within a FIELD_VALUE token's value back to its source position
+   * Token values are "<name> <value>", where <value> starts at token.valuePosition
+   */
+  private getValuePosition(token: Token, valueIndex: number): TokenPosition {
+    const nameEnd = token.value.indexOf(' ');
+    if (!token.valuePosition || nameEnd === -1) {
+      return this.offsetPosition(token.position, 1 + valueIndex);
+    }
+    return this.offsetPosition(token.valuePosition, valueIndex - (nameEnd + 1));
   }
 }
\ No newline at end of file
@@ -6,16 +6,26 @@ import {
   ErrorType, 
   Token, 
   TokenType,
-  DataType 
+  DataType,
+  FieldReference,
+  QuickFix,
+  SourceSpan,
+  TokenPosition,
+  ValidationRules
 } from '../types.js';
 import { 
   isValidFieldName, 
   parseDataType, 
   parseFormat, 
- 
+  parseValidationRules,
   parseIndexDefinition,
-  formatErrorMessage 
+  formatErrorMessage,
+  createFix,
+  createNameFixes,
+  createSpan,
+  tokenSpan
 } from '../utils.js';
+import { getInputDateFormat, readDate } from '../date-format.js';
 
 export class SchemaParser {
   private tokens: Token[];
@@ -29,10 +39,16 @@ export class SchemaParser {
     this.tokens = tokens;
   }
 
+  /**
+   * Parse a schema definition block
+   * The schema is null when the definition has errors, unless `recover` is set: the schema
+   * is then kept without the fields whose lines had errors, and marked partial
+   */
   parseSchema(
     schemaName: string, 
     startLine: number, 
-    blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data'; }
+    blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data'; },
+    recover: boolean = false
   ): { schema: DataSchema | null; errors: ParseError[]; warnings: ParseError[] } {
     this.current = 0;
     this.errors = [];
@@ -48,15 +64,19 @@ export class SchemaParser {
     };
 
     const fieldNames = new Set<string>();
+    const omittedFields = new Set<string>();
 
     while (!this.isAtEnd() && !this.isBlockEnd()) {
       const token = this.advance();
 
       if (token.type === TokenType.FIELD_NAME) {
+        const errorCount = this.errors.length;
         const field = this.parseFieldDefinition(token);
-        if (field) {
+        if (field && this.errors.length > errorCount) {
+          omittedFields.add(field.name);
+        } else if (field) {
           if (fieldNames.has(field.name)) {
-            this.addError(ErrorType.DUPLICATE_FIELD, token.position.line, {
+            this.addError(ErrorType.DUPLICATE_FIELD, this.valueSpan(token, 0, field.name.length), {
               fieldName: field.name,
               schemaName: schemaName
             }, this.blockContext);
@@ -66,7 +86,7 @@ export class SchemaParser {
           }
         }
       } else if (token.type === TokenType.INDEX_DEFINITION) {
-        const index = this.parseIndexDefinition(token, fieldNames);
+        const index = this.parseIndexDefinition(token, fieldNames, omittedFields);
         if (index) {
           schema.indexes.push(index);
         }
@@ -74,32 +94,38 @@ export class SchemaParser {
         // Skip comments
         continue;
       } else if (token.type !== TokenType.NEWLINE) {
-        this.addError(ErrorType.SYNTAX_ERROR, token.position.line, {
+        this.addError(ErrorType.SYNTAX_ERROR, tokenSpan(token), {
           message: `Unexpected token in schema definition: ${token.value}`
         }, this.blockContext);
       }
     }
 
+    if (this.errors.length > 0 && recover) {
+      schema.partial = true;
+      if (omittedFields.size > 0) {
+        schema.omittedFields = Array.from(omittedFields);
+      }
+    }
+
     return {
-      schema: this.errors.length === 0 ? schema : null,
+      schema: this.errors.length === 0 || recover ? schema : null,
       errors: this.errors,
       warnings: this.warnings
     };
   }
 
   private parseFieldDefinition(token: Token): FieldDefinition | null {
-    const fieldDefString = token.value;
-    const parts = this.parseFieldComponents(fieldDefString, token.position.line);
+    const parts = this.parseFieldComponents(token);
 
     if (!parts.name) {
-      this.addError(ErrorType.MISSING_FIELD_ATTRIBUTE, token.position.line, {
+      this.addError(ErrorType.MISSING_FIELD_ATTRIBUTE, tokenSpan(token), {
         message: 'Field name is required in field definition'
       }, this.blockContext);
       return null;
     }
 
     if (!isValidFieldName(parts.name)) {
-      this.addError(ErrorType.INVALID_FIELD_NAME, token.position.line, {
+      this.addError(ErrorType.INVALID_FIELD_NAME, parts.spans['name'] || tokenSpan(token), {
         fieldName: parts.name,
         message: 'Field name must start with a letter and contain only letters, numbers, and underscores'
       }, this.blockContext);
@@ -108,8 +134,12 @@ export class SchemaParser {
 
     // Validate data type if specified
     if (parts.typeString && !this.isValidDataType(parts.typeString)) {
-      this.addWarning(ErrorType.INVALID_DATA_TYPE, token.position.line, {
+      const typeStart = parts.starts['type'];
+      this.addWarning(ErrorType.INVALID_DATA_TYPE, parts.spans['type'] || tokenSpan(token), {
         fieldName: parts.name,
+        ...(typeStart !== undefined && {
+          fixes: createNameFixes(parts.typeString, Object.values(DataType), this.valuePosition(token, typeStart))
+        }),
         message: `Invalid data type "${parts.typeString}" for field "${parts.name}" - defaulting to text`
       }, this.blockContext);
     }
@@ -119,61 +149,88 @@ export class SchemaParser {
       type: parts.type || DataType.TEXT,
       ...(parts.label && { label: parts.label }),
       ...(parts.format && { format: parts.format }),
-      ...(parts.required !== undefined && { required: parts.required })
+      ...(parts.required !== undefined && { required: parts.required }),
+      ...(parts.validation && { validation: parts.validation }),
+      ...(parts.ref && { ref: parts.ref })
     };
 
+    if (field.validation) {
+      this.validateRuleTypes(field, parts.spans['valid'] || tokenSpan(token));
+    }
+
     return field;
   }
 
-  private parseFieldComponents(fieldDefString: string, lineNumber: number): {
+  private parseFieldComponents(token: Token): {
     name?: string;
     type?: DataType;
     typeString?: string;
     label?: string;
     format?: string | import('../types.js').DualFormat;
-    validation?: any;
+    validation?: ValidationRules;
     required?: boolean;
+    ref?: FieldReference;
+    /** Where the name and each attribute value are on the line */
+    spans: Record<string, SourceSpan>;
+    /** Index of the name and each attribute value within the token's value */
+    starts: Record<string, number>;
   } {
+    const fieldDefString = token.value;
     const parts: Record<string, string> = {};
+    const spans: Record<string, SourceSpan> = {};
+    const valueStarts: Record<string, number> = {};
     
     // First, validate for missing commas by checking for common attribute patterns
-    this.validateFieldSyntax(fieldDefString, lineNumber);
+    this.validateFieldSyntax(token);
     
-    const components = this.splitRespectingQuotes(fieldDefString).map(c => c.trim());
+    const rawComponents = this.splitRespectingQuotes(fieldDefString);
+    const components = rawComponents.map(c => c.trim());
+    // Each comma removed by the split is one character
+    const starts: number[] = [];
+    rawComponents.reduce((offset, raw) => {
+      starts.push(offset + raw.length - raw.trimStart().length);
+      return offset + raw.length + 1;
+    }, 0);
 
     // First component is always the field name
     if (components.length > 0 && components[0]) {
       parts['name'] = components[0];
+      spans['name'] = this.valueSpan(token, starts[0] ?? 0, components[0].length);
+      valueStarts['name'] = starts[0] ?? 0;
     }
 
     // Parse remaining components as key:value pairs
     for (let i = 1; i < components.length; i++) {
       const component = components[i];
+      const start = starts[i] ?? 0;
       if (!component) continue;
       const colonIndex = component.indexOf(':');
       
       if (colonIndex === -1) {
-        this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, lineNumber, {
+        this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, this.valueSpan(token, start, component.length), {
           message: `Invalid field attribute syntax "${component}" - expected "key: value" format`
         }, this.blockContext);
         continue;
       }
 
       const key = component.substring(0, colonIndex).trim();
-      let value = component.substring(colonIndex + 1).trim();
+      const rawValue = component.substring(colonIndex + 1);
+      const valueStart = start + colonIndex + 1 + rawValue.length - rawValue.trimStart().length;
+      let value = rawValue.trim();
 
       if (!value) {
-        this.addError(ErrorType.MISSING_FIELD_ATTRIBUTE, lineNumber, {
+        this.addError(ErrorType.MISSING_FIELD_ATTRIBUTE, this.valueSpan(token, start, component.length), {
           message: `Missing value for field attribute "${key}"`
         }, this.blockContext);
         continue;
       }
 
       // Validate known attribute keys
-      const validKeys = ['type', 'label', 'format', 'valid', 'required'];
+      const validKeys = ['type', 'label', 'format', 'valid', 'required', 'ref'];
       if (!validKeys.includes(key)) {
-        this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, lineNumber, {
-          message: `Unknown field attribute "${key}" - valid attributes: ${validKeys.join(', ')}`
+        this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, this.valueSpan(token, start, key.length), {
+          message: `Unknown field attribute "${key}" - valid attributes: ${validKeys.join(', ')}`,
+          fixes: createNameFixes(key, validKeys, this.valuePosition(token, start))
         }, this.blockContext);
       }
 
@@ -190,17 +247,23 @@ export class SchemaParser {
           }
         }
         
+        const valueEnd = (starts[i] ?? 0) + (components[i]?.length ?? 0);
         if (!foundClose) {
-          this.addError(ErrorType.UNCLOSED_LITERAL, lineNumber, {
+          this.addError(ErrorType.UNCLOSED_LITERAL, this.valueSpan(token, valueStart, valueEnd - valueStart), {
             message: `Unclosed brace in "${key}" attribute`
           }, this.blockContext);
         }
+        spans[key] = this.valueSpan(token, valueStart, valueEnd - valueStart);
+      } else {
+        spans[key] = this.valueSpan(token, valueStart, value.length);
       }
+      valueStarts[key] = valueStart;
 
       parts[key] = value;
     }
 
-    const result: ReturnType<typeof this.parseFieldComponents> = {};
+    const result: ReturnType<typeof this.parseFieldComponents> = { spans, starts: valueStarts };
+    const spanOf = (key: string) => spans[key] || tokenSpan(token);
 
     if (parts['name']) {
       result.name = parts['name'];
@@ -219,29 +282,51 @@ export class SchemaParser {
       try {
         result.format = parseFormat(parts['format']);
       } catch (error) {
-        this.addError(ErrorType.MALFORMED_DUAL_FORMAT, lineNumber, {
+        this.addError(ErrorType.MALFORMED_DUAL_FORMAT, spanOf('format'), {
           message: `Invalid format syntax: ${error instanceof Error ? error.message : 'Unknown error'}`
         }, this.blockContext);
       }
     }
 
-    // Skip validation rules - this parser focuses on structure, not data validation
+    if (parts['valid']) {
+      try {
+        result.validation = parseValidationRules(parts['valid']);
+      } catch (error) {
+        this.addError(ErrorType.MALFORMED_VALIDATION_RULES, spanOf('valid'), {
+          ...(parts['name'] && { fieldName: parts['name'] }),
+          message: `Invalid validation rules "${parts['valid']}": ${error instanceof Error ? error.message : 'Unknown error'}`
+        }, this.blockContext);
+      }
+    }
 
     if (parts['required']) {
       if (parts['required'].toLowerCase() !== 'true' && parts['required'].toLowerCase() !== 'false') {
-        this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, lineNumber, {
+        this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, spanOf('required'), {
           message: `Invalid required value "${parts['required']}" - must be "true" or "false"`
         }, this.blockContext);
       }
       result.required = parts['required'].toLowerCase() === 'true';
     }
 
+    if (parts['ref']) {
+      const match = parts['ref'].replace(/^["']|["']$/g, '').match(/^([a-zA-Z][a-zA-Z0-9_]*)\.([a-zA-Z][a-zA-Z0-9_]*)$/);
+      if (match && match[1] && match[2]) {
+        result.ref = { schema: match[1], field: match[2] };
+      } else {
+        this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, spanOf('ref'), {
+          ...(parts['name'] && { fieldName: parts['name'] }),
+          message: `Invalid reference "${parts['ref']}" - expected "schema.field"`
+        }, this.blockContext);
+      }
+    }
+
     return result;
   }
 
-  private validateFieldSyntax(fieldDefString: string, lineNumber: number): void {
+  private validateFieldSyntax(token: Token): void {
+    const fieldDefString = token.value;
     // Check for common patterns that indicate missing commas between attributes
-    const validAttributeNames = ['type', 'label', 'format', 'valid', 'required'];
+    const validAttributeNames = ['type', 'label', 'format', 'valid', 'required', 'ref'];
     
     // Look for pattern: quoted_value unquoted_attribute_name:
     // This indicates a missing comma after a quoted value
@@ -250,9 +335,7 @@ export class SchemaParser {
     while ((match = missingCommaPattern.exec(fieldDefString)) !== null) {
       const attributeName = match[1];
       if (attributeName && validAttributeNames.includes(attributeName)) {
-        this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, lineNumber, {
-          message: `Missing comma before "${attributeName}" attribute. Field attributes must be separated by commas.`
-        }, this.blockContext);
+        this.addMissingComma(token, match.index + match[0].lastIndexOf(attributeName), attributeName);
         return; // Stop after first error to avoid confusing multiple messages
       }
     }
@@ -260,12 +343,23 @@ export class SchemaParser {
     // Look for pattern: unquoted_value unquoted_attribute_name:
     // This is trickier but we can detect some cases
     const components = fieldDefString.split(',');
+    let componentOffset = 0;
     for (let i = 0; i < components.length; i++) {
-      const component = components[i]?.trim();
+      const rawComponent = components[i] || '';
+      const component = rawComponent.trim();
+      const start = componentOffset + rawComponent.length - rawComponent.trimStart().length;
+      componentOffset += rawComponent.length + 1;
       if (!component) continue;
       
-      // Skip the field name (first component)
-      if (i === 0) continue;
+      // The field name (first component) takes no colon, so "name type: ..." is an attribute run on from it
+      if (i === 0) {
+        const runOn = component.match(/^(\S+\s+)([a-zA-Z_][a-zA-Z0-9_]*)\s*:/);
+        if (runOn?.[1] && runOn[2] && validAttributeNames.includes(runOn[2])) {
+          this.addMissingComma(token, start + runOn[1].length, runOn[2]);
+          return;
+        }
+        continue;
+      }
       
       // Check if this component has multiple colons (indicating merged attributes)
       const colonCount = (component.match(/:/g) || []).length;
@@ -275,9 +369,8 @@ export class SchemaParser {
         for (let j = 1; j < segments.length - 1; j++) {
           const potentialAttr = segments[j]?.trim().split(/\s+/).pop();
           if (potentialAttr && validAttributeNames.includes(potentialAttr)) {
-            this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, lineNumber, {
-              message: `Missing comma before "${potentialAttr}" attribute. Field attributes must be separated by commas.`
-            }, this.blockContext);
+            const segmentStart = segments.slice(0, j).reduce((sum, segment) => sum + segment.length + 1, 0);
+            this.addMissingComma(token, start + segmentStart + (segments[j]?.lastIndexOf(potentialAttr) ?? 0), potentialAttr);
             return;
           }
         }
@@ -293,9 +386,7 @@ export class SchemaParser {
             const words = afterQuote.split(/\s+/);
             for (const word of words) {
               if (validAttributeNames.includes(word)) {
-                this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, lineNumber, {
-                  message: `Missing comma before "${word}" attribute. Field attributes must be separated by commas.`
-                }, this.blockContext);
+                this.addMissingComma(token, start + component.indexOf(word, quoteIndex + 1), word);
                 return;
               }
             }
@@ -305,17 +396,64 @@ export class SchemaParser {
     }
   }
 
+  /**
+   * Report an attribute run on from the previous one, with a fix adding the comma
+   * straight after the previous attribute's value
+   */
+  private addMissingComma(token: Token, attributeStart: number, attributeName: string): void {
+    const commaAt = token.value.slice(0, attributeStart).trimEnd().length;
+    this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, this.valueSpan(token, attributeStart, attributeName.length), {
+      message: `Missing comma before "${attributeName}" attribute. Field attributes must be separated by commas.`,
+      fixes: [createFix(`Insert comma before "${attributeName}"`, this.valuePosition(token, commaAt), 0, ',')]
+    }, this.blockContext);
+  }
+
+  /**
+   * Check that min/max bounds suit the field type (numbers, dates or times)
+   * Quoted numbers such as `min: "10"` are kept as numbers on number and text fields
+   */
+  private validateRuleTypes(field: FieldDefinition, span: SourceSpan): void {
+    for (const key of ['min', 'max'] as const) {
+      const bound = field.validation?.[key];
+      if (bound === undefined) continue;
+
+      let validBound: boolean;
+      switch (field.type) {
+        case DataType.NUMBER:
+        case DataType.TEXT:
+          validBound = typeof bound === 'number' || (bound.trim() !== '' && !isNaN(Number(bound)));
+          if (validBound && field.validation) field.validation[key] = Number(bound);
+          break;
+        case DataType.DATE:
+          validBound = readDate(String(bound), getInputDateFormat(field.format)) !== null;
+          break;
+        case DataType.TIME:
+          validBound = /^([01]?\d|2[0-3]):[0-5]\d(?::[0-5]\d)?$/.test(String(bound));
+          break;
+        default:
+          validBound = false;
+      }
+
+      if (!validBound) {
+        this.addError(ErrorType.MALFORMED_VALIDATION_RULES, span, {
+          fieldName: field.name,
+          message: `Invalid "${key}" rule value "${bound}" for ${field.type} field "${field.name}"`
+        }, this.blockContext);
+      }
+    }
+  }
+
   private isValidDataType(typeString: string): boolean {
     const validTypes = ['text', 'number', 'num', 'date', 'time', 'boolean', 'bool'];
     return validTypes.includes(typeString.toLowerCase().trim());
   }
 
-  private parseIndexDefinition(token: Token, fieldNames: Set<string>): IndexDefinition | null {
+  private parseIndexDefinition(token: Token, fieldNames: Set<string>, omittedFields: Set<string>): IndexDefinition | null {
     const indexDefString = token.value;
     const fields = parseIndexDefinition(indexDefString);
 
     if (fields.length === 0) {
-      this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, token.position.line, {
+      this.addError(ErrorType.MALFORMED_FIELD_ATTRIBUTE, tokenSpan(token), {
         message: 'Index definition must specify at least one field'
       }, this.blockContext);
       return null;
@@ -323,9 +461,15 @@ export class SchemaParser {
 
     // Validate that all referenced fields exist
     for (const fieldName of fields) {
+      // A field with a broken definition is reported on its own line
+      if (omittedFields.has(fieldName)) return null;
+
       if (!fieldNames.has(fieldName)) {
-        this.addError(ErrorType.INVALID_INDEX_REFERENCE, token.position.line, {
+        const fieldStart = indexDefString.indexOf(fieldName);
+        const span = fieldStart === -1 ? tokenSpan(token) : this.valueSpan(token, fieldStart, fieldName.length);
+        this.addError(ErrorType.INVALID_INDEX_REFERENCE, span, {
           fieldName: fieldName,
+          ...(fieldStart !== -1 && { fixes: createNameFixes(fieldName, [...fieldNames, ...omittedFields], this.valuePosition(token, fieldStart)) }),
           message: `Index references unknown field: ${fieldName}`
         }, this.blockContext);
         return null;
@@ -361,17 +505,30 @@ export class SchemaParser {
     return this.tokens[this.current - 1] || { type: TokenType.EOF, value: '', position: { line: 0, column: 0, offset: 0 } };
   }
 
+  /**
+   * Span of text within a `!fname:` or `!index:` token's value
+   */
+  private valueSpan(token: Token, index: number, length: number): SourceSpan {
+    return createSpan(this.valuePosition(token, index), length);
+  }
+
+  private valuePosition(token: Token, index: number): TokenPosition {
+    const position = token.valuePosition || token.position;
+    return { ...position, column: position.column + index, offset: position.offset + index };
+  }
+
   private addError(
     type: ErrorType, 
-    lineNumber: number, 
-    details: { message?: string; fieldName?: string; schemaName?: string },
+    span: SourceSpan, 
+    details: { message?: string; fieldName?: string; schemaName?: string; fixes?: QuickFix[] },
     blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data'; }
   ): void {
     this.errors.push({
       type,
       message: details.message || formatErrorMessage(type, details),
-      lineNumber,
+      ...span,
       ...(details.fieldName && { fieldName: details.fieldName }),
+      ...(details.fixes && details.fixes.length > 0 && { fixes: details.fixes }),
       ...((details.schemaName !== undefined ? details.schemaName : this.currentSchemaName) !== undefined && { 
         schemaName: details.schemaName !== undefined ? details.schemaName : this.currentSchemaName 
       }),
@@ -382,15 +539,16 @@ export class SchemaParser {
 
   private addWarning(
     type: ErrorType, 
-    lineNumber: number, 
-    details: { message?: string; fieldName?: string; schemaName?: string },
+    span: SourceSpan, 
+    details: { message?: string; fieldName?: string; schemaName?: string; fixes?: QuickFix[] },
     blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data'; }
   ): void {
     this.warnings.push({
       type,
       message: details.message || formatErrorMessage(type, details),
-      lineNumber,
+      ...span,
       ...(details.fieldName && { fieldName: details.fieldName }),
+      ...(details.fixes && details.fixes.length > 0 && { fixes: details.fixes }),
       ...((details.schemaName !== undefined ? details.schemaName : this.currentSchemaName) !== undefined && { 
         schemaName: details.schemaName !== undefined ? details.schemaName : this.currentSchemaName 
       }),
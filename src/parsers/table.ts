@@ -2,9 +2,12 @@ import {
   DataEntry, 
   DataSchema, 
   ErrorType, 
+  SourceSpan,
   Token, 
+  TokenPosition,
   TokenType 
 } from '../types.js';
+import { createSpan, tokenSpan } from '../utils.js';
 import { BaseParser } from './base.js';
 
 /**
@@ -28,6 +31,8 @@ export class TableParser extends BaseParser {
   parseData(): DataEntry[] {
     const entries: DataEntry[] = [];
     let headers: string[] = [];
+    let headerSpans: SourceSpan[] = [];
+    let headerNamePositions: TokenPosition[] = [];
     let headerLineNumber = 0;
     let recordIndex = 0;
 
@@ -36,13 +41,15 @@ export class TableParser extends BaseParser {
       const token = this.advance();
       
       if (token.type === TokenType.TABLE_HEADER) {
-        const headerResult = this.headerValidator.parseTableHeader(token.value, token.position.line, this.blockContext);
+        const headerResult = this.headerValidator.parseTableHeader(token.value, token.position, this.blockContext);
         headers = headerResult.headers;
+        headerSpans = headerResult.spans;
+        headerNamePositions = headerResult.namePositions;
         this.errors.push(...headerResult.errors);
         headerLineNumber = token.position.line;
         break;
       } else if (token.type !== TokenType.NEWLINE && token.type !== TokenType.COMMENT) {
-        this.addError(ErrorType.SYNTAX_ERROR, token.position.line, {
+        this.addError(ErrorType.SYNTAX_ERROR, tokenSpan(token), {
           message: 'Expected table header in tabular data format'
         });
         return entries;
@@ -50,14 +57,16 @@ export class TableParser extends BaseParser {
     }
 
     if (headers.length === 0) {
-      this.addError(ErrorType.SYNTAX_ERROR, this.getCurrentLine(), {
+      this.addError(ErrorType.SYNTAX_ERROR, tokenSpan(this.previous()), {
         message: 'No table headers found in tabular data'
       });
       return entries;
     }
 
     // Validate headers against schema
-    const headerValidationErrors = this.headerValidator.validateHeaders(headers, this.schema, this.schemaName, headerLineNumber, this.blockContext);
+    const headerValidationErrors = this.headerValidator.validateHeaders(
+      headers, this.schema, this.schemaName, headerLineNumber, this.blockContext, headerSpans, headerNamePositions
+    );
     this.errors.push(...headerValidationErrors);
 
     // Skip separator row (|---|---|---|)
@@ -68,13 +77,13 @@ export class TableParser extends BaseParser {
       const token = this.advance();
       
       if (token.type === TokenType.TABLE_ROW) {
-        const entry = this.parseTableRow(token.value, headers, token.position.line, recordIndex);
+        const entry = this.parseTableRow(token.value, headers, token.position, recordIndex);
         if (entry) {
           entries.push(entry);
           recordIndex++;
         }
       } else if (token.type !== TokenType.NEWLINE && token.type !== TokenType.COMMENT) {
-        this.addError(ErrorType.SYNTAX_ERROR, token.position.line, {
+        this.addError(ErrorType.SYNTAX_ERROR, tokenSpan(token), {
           message: 'Unexpected token in tabular data - expected table row'
         });
       }
@@ -86,10 +95,13 @@ export class TableParser extends BaseParser {
   /**
    * Parse a single table row into a DataEntry
    */
-  private parseTableRow(rowLine: string, headers: string[], lineNumber: number, recordIndex: number): DataEntry | null {
+  private parseTableRow(rowLine: string, headers: string[], position: TokenPosition, recordIndex: number): DataEntry | null {
+    const lineNumber = position.line;
+    const rowLength = rowLine.trimEnd().length;
+
     // Validate basic table syntax
     if (!rowLine.startsWith('|') || !rowLine.endsWith('|')) {
-      this.addError(ErrorType.INVALID_TABLE_SYNTAX, lineNumber, {
+      this.addError(ErrorType.INVALID_TABLE_SYNTAX, createSpan(position, rowLength), {
         message: 'Table row must start and end with pipe (|) character'
       });
       return null;
@@ -107,8 +119,11 @@ export class TableParser extends BaseParser {
       cells.push('');
     }
     
+    const cellOffsets = this.getCellOffsets(rowLine);
     if (cells.length > headers.length) {
-      this.addError(ErrorType.INVALID_TABLE_SYNTAX, lineNumber, {
+      // Point at the cells the header has no column for
+      const extraStart = cellOffsets[headers.length] ?? 0;
+      this.addError(ErrorType.INVALID_TABLE_SYNTAX, createSpan(this.offsetPosition(position, extraStart), rowLength - extraStart), {
         message: `Table row has ${cells.length} columns but header has ${headers.length} columns`
       });
       return null;
@@ -116,6 +131,7 @@ export class TableParser extends BaseParser {
 
     // Create field map
     const fields = new Map<string, unknown>();
+    const fieldPositions = new Map<string, TokenPosition>();
     for (let i = 0; i < headers.length; i++) {
       const header = headers[i];
       const cellValue = cells[i];
@@ -123,10 +139,27 @@ export class TableParser extends BaseParser {
       if (header) {
         // Convert empty cells to null
         fields.set(header, cellValue === '' ? null : cellValue);
+        fieldPositions.set(header, this.offsetPosition(position, cellOffsets[i] ?? rowLine.length - 1));
       }
     }
 
-    return this.createDataEntry(fields, lineNumber, recordIndex);
+    return this.createDataEntry(fields, lineNumber, recordIndex, fieldPositions);
+  }
+
+  /**
+   * Offset of each cell's trimmed content within the row line
+   */
+  private getCellOffsets(rowLine: string): number[] {
+    const offsets: number[] = [];
+    let cursor = 0;
+
+    for (const rawCell of rowLine.split('|')) {
+      offsets.push(cursor + (rawCell.length - rawCell.trimStart().length));
+      cursor += rawCell.length + 1;
+    }
+
+    // Drop the empty segments before the leading pipe and after the trailing pipe
+    return offsets.slice(1, -1);
   }
 
   /**
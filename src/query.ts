@@ -0,0 +1,351 @@
+import {
+  Aggregate,
+  DataEntry,
+  DataSchema,
+  DataType,
+  FieldDefinition,
+  ParseResult,
+  QueryOperator,
+  SortDirection
+} from './types.js';
+import { DataTypeConverter } from './data-types.js';
+import { parseDateWithFormat } from './date-format.js';
+
+type Comparable = number | string;
+
+interface Filter {
+  test(entry: DataEntry): boolean;
+}
+
+interface Sort {
+  field: FieldDefinition;
+  direction: SortDirection;
+}
+
+interface QueryState {
+  filters: Filter[];
+  sorts: Sort[];
+  projection?: string[];
+  limit?: number;
+}
+
+/**
+ * Immutable query over the records of one schema
+ * Values are compared by field type: numbers numerically, dates and times chronologically,
+ * so `where('salary', 'gt', 50000)` and `where('hired', 'before', '2024-01-01')` work on raw text
+ */
+export class RecordQuery {
+  private entries: DataEntry[];
+  private schema: DataSchema;
+  private state: QueryState;
+  private converter: DataTypeConverter;
+
+  constructor(entries: DataEntry[], schema: DataSchema, state: QueryState = { filters: [], sorts: [] }) {
+    this.entries = entries;
+    this.schema = schema;
+    this.state = state;
+    this.converter = new DataTypeConverter();
+  }
+
+  /**
+   * Query the records of a schema in a parse result
+   * Pass the schema explicitly for data blocks whose schema came from an external file
+   */
+  static from(result: ParseResult, schemaName: string, schema?: DataSchema): RecordQuery {
+    const resolved = schema || result.schemas.get(schemaName);
+    if (!resolved) {
+      throw new Error(`Schema '${schemaName}' not found in parse result`);
+    }
+    return new RecordQuery(result.data.get(schemaName) || [], resolved);
+  }
+
+  /**
+   * Keep records whose field matches a comparison, or that pass a predicate on the typed record
+   * Operands are converted like field values: a number field accepts 42 or '42',
+   * a date field accepts a Date, text in the field's format, or ISO 8601
+   */
+  where(predicate: (record: Record<string, unknown>) => boolean): RecordQuery;
+  where(fieldName: string, operator: QueryOperator, operand?: unknown): RecordQuery;
+  where(
+    fieldOrPredicate: string | ((record: Record<string, unknown>) => boolean),
+    operator?: QueryOperator,
+    operand?: unknown
+  ): RecordQuery {
+    const filter: Filter = typeof fieldOrPredicate === 'function'
+      ? { test: entry => fieldOrPredicate(this.converter.convertRecord(entry, this.schema)) }
+      : this.createFilter(this.getField(fieldOrPredicate), operator || 'eq', operand);
+
+    return this.next({ filters: [...this.state.filters, filter] });
+  }
+
+  /**
+   * Sort by a field; each call adds a tie-breaker after the earlier sorts
+   * Empty values sort last in either direction
+   */
+  orderBy(fieldName: string, direction: SortDirection = 'asc'): RecordQuery {
+    return this.next({ sorts: [...this.state.sorts, { field: this.getField(fieldName), direction }] });
+  }
+
+  /**
+   * Only include these fields in toArray() output
+   */
+  select(...fieldNames: string[]): RecordQuery {
+    fieldNames.forEach(name => this.getField(name));
+    return this.next({ projection: fieldNames });
+  }
+
+  limit(count: number): RecordQuery {
+    return this.next({ limit: count });
+  }
+
+  /**
+   * Matching records, sorted and limited, as parsed
+   */
+  getEntries(): DataEntry[] {
+    let entries = this.entries.filter(entry => this.state.filters.every(filter => filter.test(entry)));
+
+    if (this.state.sorts.length > 0) {
+      // Decorate once so each value is converted a single time
+      entries = entries
+        .map((entry, index) => ({ entry, index, keys: this.state.sorts.map(sort => this.getComparable(entry, sort.field)) }))
+        .sort((a, b) => this.compareKeys(a.keys, b.keys) || a.index - b.index)
+        .map(item => item.entry);
+    }
+
+    return this.state.limit !== undefined ? entries.slice(0, this.state.limit) : entries;
+  }
+
+  /**
+   * Matching records as plain objects of typed values, projected to the selected fields
+   */
+  toArray(): Array<Record<string, unknown>> {
+    const projection = this.state.projection;
+
+    return this.getEntries().map(entry => {
+      const record = this.converter.convertRecord(entry, this.schema);
+      if (!projection) return record;
+      return Object.fromEntries(projection.map(name => [name, record[name] ?? null]));
+    });
+  }
+
+  first(): Record<string, unknown> | undefined {
+    return this.limit(1).toArray()[0];
+  }
+
+  count(): number {
+    return this.getEntries().length;
+  }
+
+  /**
+   * Group matching records by one or more fields and aggregate each group
+   * Returns one row per group, in order of first appearance, holding the group
+   * values and each named aggregate; avg, min and max of an empty group are null
+   */
+  groupBy(fieldNames: string | string[], aggregates: Record<string, Aggregate> = {}): Array<Record<string, unknown>> {
+    const groupFields = (Array.isArray(fieldNames) ? fieldNames : [fieldNames]).map(name => this.getField(name));
+    for (const [name, aggregate] of Object.entries(aggregates)) {
+      this.checkAggregate(name, aggregate);
+    }
+
+    const groups = new Map<string, DataEntry[]>();
+    for (const entry of this.getEntries()) {
+      const key = JSON.stringify(groupFields.map(field => this.getComparable(entry, field)));
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+
+    return Array.from(groups.values(), entries => {
+      const first = this.converter.convertRecord(entries[0] as DataEntry, this.schema);
+      const row: Record<string, unknown> = {};
+
+      for (const field of groupFields) {
+        row[field.name] = first[field.name] ?? null;
+      }
+      for (const [name, aggregate] of Object.entries(aggregates)) {
+        row[name] = this.aggregate(entries, aggregate);
+      }
+      return row;
+    });
+  }
+
+  private next(changes: Partial<QueryState>): RecordQuery {
+    return new RecordQuery(this.entries, this.schema, { ...this.state, ...changes });
+  }
+
+  private getField(name: string): FieldDefinition {
+    const field = this.schema.fields.find(f => f.name === name);
+    if (!field) {
+      throw new Error(`Unknown field '${name}' in schema '${this.schema.name}'`);
+    }
+    return field;
+  }
+
+  private createFilter(field: FieldDefinition, operator: QueryOperator, operand: unknown): Filter {
+    const value = (entry: DataEntry) => this.getComparable(entry, field);
+
+    switch (operator) {
+      case 'empty':
+        return { test: entry => value(entry) === null };
+      case 'notEmpty':
+        return { test: entry => value(entry) !== null };
+      case 'in': {
+        if (!Array.isArray(operand)) {
+          throw new Error(`Operator 'in' for field '${field.name}' needs an array of values`);
+        }
+        const options = operand.map(option => this.toOperand(option, field));
+        return { test: entry => options.includes(value(entry)) };
+      }
+      case 'between': {
+        if (!Array.isArray(operand) || operand.length !== 2) {
+          throw new Error(`Operator 'between' for field '${field.name}' needs [low, high] bounds`);
+        }
+        const low = this.toOperand(operand[0], field);
+        const high = this.toOperand(operand[1], field);
+        return {
+          test: entry => {
+            const current = value(entry);
+            return current !== null && low !== null && high !== null &&
+              this.compare(current, low) >= 0 && this.compare(current, high) <= 0;
+          }
+        };
+      }
+      case 'contains':
+      case 'startsWith':
+      case 'endsWith': {
+        const needle = String(operand ?? '').toLowerCase();
+        return {
+          test: entry => {
+            const text = this.getText(entry, field);
+            if (text === null) return false;
+            return operator === 'contains' ? text.includes(needle)
+              : operator === 'startsWith' ? text.startsWith(needle)
+                : text.endsWith(needle);
+          }
+        };
+      }
+    }
+
+    const target = this.toOperand(operand, field);
+    return {
+      test: entry => {
+        const current = value(entry);
+        if (operator === 'ne') return current !== target;
+        if (current === null || target === null) return false;
+
+        const order = this.compare(current, target);
+        switch (operator) {
+          case 'eq': return order === 0;
+          case 'lt': case 'before': return order < 0;
+          case 'lte': return order <= 0;
+          case 'gt': case 'after': return order > 0;
+          case 'gte': return order >= 0;
+          default:
+            throw new Error(`Unknown query operator '${String(operator)}'`);
+        }
+      }
+    };
+  }
+
+  private checkAggregate(name: string, aggregate: Aggregate): void {
+    if (aggregate.fn === 'count' && aggregate.field === undefined) return;
+    if (aggregate.field === undefined) {
+      throw new Error(`Aggregate '${name}' (${aggregate.fn}) needs a field`);
+    }
+
+    const field = this.getField(aggregate.field);
+    if ((aggregate.fn === 'sum' || aggregate.fn === 'avg') && field.type !== DataType.NUMBER) {
+      throw new Error(`Aggregate '${name}' cannot ${aggregate.fn} ${field.type} field '${field.name}'`);
+    }
+  }
+
+  private aggregate(entries: DataEntry[], aggregate: Aggregate): unknown {
+    if (aggregate.field === undefined) return entries.length;
+
+    const field = this.getField(aggregate.field);
+    const present = entries.filter(entry => this.getComparable(entry, field) !== null);
+
+    switch (aggregate.fn) {
+      case 'count':
+        return present.length;
+      case 'sum':
+      case 'avg': {
+        // Values that are not numbers are already reported as type mismatches
+        const numbers = present.map(entry => this.getComparable(entry, field)).filter((n): n is number => typeof n === 'number');
+        const total = numbers.reduce((sum, n) => sum + n, 0);
+        if (aggregate.fn === 'sum') return total;
+        return numbers.length > 0 ? total / numbers.length : null;
+      }
+      case 'min':
+      case 'max': {
+        const sign = aggregate.fn === 'min' ? 1 : -1;
+        const best = present.reduce<DataEntry | undefined>((current, entry) => {
+          if (!current) return entry;
+          const order = this.compare(this.getComparable(entry, field) as Comparable, this.getComparable(current, field) as Comparable);
+          return order * sign < 0 ? entry : current;
+        }, undefined);
+        return best ? this.converter.convertRecord(best, this.schema)[field.name] ?? null : null;
+      }
+    }
+  }
+
+  private compareKeys(a: Array<Comparable | null>, b: Array<Comparable | null>): number {
+    for (let i = 0; i < this.state.sorts.length; i++) {
+      const left = a[i] ?? null;
+      const right = b[i] ?? null;
+      if (left === right) continue;
+      if (left === null) return 1;
+      if (right === null) return -1;
+
+      const order = this.compare(left, right);
+      if (order !== 0) {
+        return this.state.sorts[i]?.direction === 'desc' ? -order : order;
+      }
+    }
+    return 0;
+  }
+
+  private compare(a: Comparable, b: Comparable): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    return String(a).localeCompare(String(b));
+  }
+
+  private getText(entry: DataEntry, field: FieldDefinition): string | null {
+    const raw = entry.rawFields?.has(field.name) ? entry.rawFields.get(field.name) : entry.fields.get(field.name);
+    if (raw === null || raw === undefined || String(raw).trim() === '') return null;
+    return String(raw).trim().toLowerCase();
+  }
+
+  private getComparable(entry: DataEntry, field: FieldDefinition): Comparable | null {
+    const raw = entry.rawFields?.has(field.name) ? entry.rawFields.get(field.name) : entry.fields.get(field.name);
+    return this.toComparable(raw, field);
+  }
+
+  /**
+   * Convert a query operand; date fields also accept ISO 8601 text
+   */
+  private toOperand(value: unknown, field: FieldDefinition): Comparable | null {
+    if (field.type === DataType.DATE && typeof value === 'string') {
+      const iso = parseDateWithFormat(value, 'YYYY-MM-DD');
+      if (iso) return new Date(iso.year, iso.month - 1, iso.day).getTime();
+    }
+    return this.toComparable(value, field);
+  }
+
+  /**
+   * Numbers and booleans compare as numbers, dates as timestamps, times as seconds
+   * since midnight; text, and values that do not convert, compare as text
+   */
+  private toComparable(value: unknown, field: FieldDefinition): Comparable | null {
+    if (value === null || value === undefined || String(value).trim() === '') return null;
+
+    const typed = value instanceof Date ? value : this.converter.convertTypedValue(value, field);
+
+    if (typed instanceof Date) {
+      return field.type === DataType.TIME
+        ? typed.getHours() * 3600 + typed.getMinutes() * 60 + typed.getSeconds()
+        : typed.getTime();
+    }
+    if (typeof typed === 'number') return typed;
+    if (typeof typed === 'boolean') return typed ? 1 : 0;
+    return String(typed).trim();
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  DataEntry,
+  DataSchema,
+  ErrorType,
+  FieldDefinition,
+  FieldReference,
+  ParseError,
+  RecordIndex
+} from './types.js';
+import { UniqueIndex } from './indexes.js';
+import { fieldValueSpan } from './utils.js';
+
+/**
+ * Links records to the records their `ref: schema.field` fields point at
+ */
+export class ReferenceResolver {
+
+  /**
+   * Set `DataEntry.references` for every resolvable reference, reporting
+   * references to unknown schemas or fields, and, when asked, values with no matching record
+   * Runs after all blocks are read, so referenced records may appear anywhere in the document
+   */
+  resolveReferences(
+    schemas: Map<string, DataSchema>,
+    data: Map<string, DataEntry[]>,
+    indexes: Map<string, Map<string, RecordIndex>>,
+    reportDangling: boolean = true
+  ): ParseError[] {
+    const errors: ParseError[] = [];
+    const lookups = new Map<string, RecordIndex>();
+
+    // Records reused by reparse() may hold references from the earlier parse
+    for (const entries of data.values()) {
+      entries.forEach(entry => delete entry.references);
+    }
+
+    for (const schema of schemas.values()) {
+      for (const field of schema.fields) {
+        if (!field.ref) continue;
+
+        const target = schemas.get(field.ref.schema);
+        // A target field left out of a partial schema is reported at its definition
+        if (target?.omittedFields?.includes(field.ref.field)) continue;
+        if (!target || !target.fields.some(f => f.name === field.ref?.field)) {
+          errors.push(this.invalidReferenceError(schema, field, field.ref, target));
+          continue;
+        }
+
+        const key = `${field.ref.schema}.${field.ref.field}`;
+        const lookup = lookups.get(key) ||
+          this.getLookup(target, field.ref.field, data.get(target.name) || [], indexes);
+        lookups.set(key, lookup);
+
+        for (const entry of data.get(schema.name) || []) {
+          const raw = entry.rawFields?.has(field.name) ? entry.rawFields.get(field.name) : entry.fields.get(field.name);
+          if (raw === null || raw === undefined || String(raw).trim() === '') continue;
+
+          const referenced = lookup.get(raw);
+          if (referenced) {
+            entry.references = entry.references || new Map();
+            entry.references.set(field.name, referenced);
+          } else if (reportDangling) {
+            errors.push(this.danglingReferenceError(entry, schema, field, field.ref, String(raw)));
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Reuse a unique index on the referenced field, or index its records now
+   */
+  private getLookup(
+    target: DataSchema,
+    fieldName: string,
+    entries: DataEntry[],
+    indexes: Map<string, Map<string, RecordIndex>>
+  ): RecordIndex {
+    const existing = indexes.get(target.name)?.get(fieldName);
+    if (existing && existing.fields.length === 1) return existing;
+
+    const index = new UniqueIndex({ fields: [fieldName], name: fieldName }, target);
+    entries.forEach(entry => index.add(entry));
+    return index;
+  }
+
+  private invalidReferenceError(
+    schema: DataSchema,
+    field: FieldDefinition,
+    ref: FieldReference,
+    target: DataSchema | undefined
+  ): ParseError {
+    return {
+      type: ErrorType.INVALID_REFERENCE,
+      message: target
+        ? `Field '${field.name}' references unknown field '${ref.field}' in schema '${ref.schema}'`
+        : `Field '${field.name}' references unknown schema '${ref.schema}'`,
+      schemaName: schema.name,
+      fieldName: field.name,
+      blockType: 'datadef',
+      ...(schema.lineNumber !== undefined && { lineNumber: schema.lineNumber }),
+      ...(schema.blockNumber !== undefined && { blockNumber: schema.blockNumber }),
+      ...(schema.sourcePath && { sourceFile: schema.sourcePath })
+    };
+  }
+
+  private danglingReferenceError(
+    entry: DataEntry,
+    schema: DataSchema,
+    field: FieldDefinition,
+    ref: FieldReference,
+    value: string
+  ): ParseError {
+    const lineNumber = entry.fieldPositions?.get(field.name)?.line ?? entry.lineNumber;
+    const recordLabel = entry.recordNumber !== undefined ? ` (record ${entry.recordNumber})` : '';
+
+    return {
+      type: ErrorType.DANGLING_REFERENCE,
+      message: `Value '${value}' for field '${field.name}'${recordLabel} does not match any ${ref.schema}.${ref.field}`,
+      schemaName: schema.name,
+      fieldName: field.name,
+      value,
+      blockType: 'data',
+      ...(lineNumber !== undefined && { lineNumber }),
+      ...fieldValueSpan(entry, field.name),
+      ...(entry.blockNumber !== undefined && { blockNumber: entry.blockNumber }),
+      ...(entry.recordNumber !== undefined && { recordNumber: entry.recordNumber }),
+      ...(entry.sourceFile && { sourceFile: entry.sourceFile })
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { promises as fs } from 'fs';
+import { resolve, dirname } from 'path';
+import { DataSchema, SchemaResolver } from '../types.js';
+
+/**
+ * Schema resolver that reads referenced markdown files from disk (Node only)
+ * Paths resolve against the configured base path, else the referencing file's directory
+ */
+export class FileSystemSchemaResolver implements SchemaResolver {
+  private basePath: string | undefined;
+
+  constructor(basePath?: string) {
+    this.basePath = basePath;
+  }
+
+  resolvePath(path: string, fromFile?: string): string {
+    if (this.basePath) {
+      return resolve(this.basePath, path);
+    }
+    return fromFile ? resolve(dirname(fromFile), path) : resolve(path);
+  }
+
+  async resolve(path: string, fromFile?: string): Promise<string | DataSchema> {
+    return fs.readFile(this.resolvePath(path, fromFile), 'utf-8');
+  }
+}
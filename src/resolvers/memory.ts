@@ -0,0 +1,58 @@
+import { DataSchema, SchemaResolver } from '../types.js';
+
+/**
+ * Schema resolver backed by an in-memory map of path to markdown text or schema
+ * Works in the browser and in tests without touching the filesystem
+ */
+export class InMemorySchemaResolver implements SchemaResolver {
+  private sources = new Map<string, string | DataSchema>();
+
+  constructor(sources?: Map<string, string | DataSchema> | Record<string, string | DataSchema>) {
+    if (sources) {
+      const entries = sources instanceof Map ? sources.entries() : Object.entries(sources);
+      for (const [path, source] of entries) {
+        this.set(path, source);
+      }
+    }
+  }
+
+  /**
+   * Register markdown text or a ready-made schema under a path
+   */
+  set(path: string, source: string | DataSchema): void {
+    this.sources.set(normalizePath(path), source);
+  }
+
+  resolvePath(path: string, fromFile?: string): string {
+    if (path.startsWith('/') || !fromFile) {
+      return normalizePath(path);
+    }
+    const fromDir = fromFile.substring(0, fromFile.lastIndexOf('/') + 1);
+    return normalizePath(fromDir + path);
+  }
+
+  async resolve(path: string, fromFile?: string): Promise<string | DataSchema> {
+    const resolvedPath = this.resolvePath(path, fromFile);
+    const source = this.sources.get(resolvedPath);
+    if (source === undefined) {
+      throw new Error(`No schema source registered for '${resolvedPath}'`);
+    }
+    return source;
+  }
+}
+
+/**
+ * Collapse "." and ".." segments of a forward-slash path
+ */
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return (path.startsWith('/') ? '/' : '') + segments.join('/');
+}
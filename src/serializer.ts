@@ -0,0 +1,260 @@
+import {
+  DataEntry,
+  DataSchema,
+  DataType,
+  DualFormat,
+  FieldDefinition,
+  ParseResult,
+  SerializeOptions,
+  ValidationRules
+} from './types.js';
+import { formatDateWithFormat, getInputDateFormat, isDatePattern, toIsoDate } from './date-format.js';
+
+/**
+ * Writes schemas and records back to Markdown Data Extension syntax
+ * Output parses back to the same schemas and record values
+ */
+export class MarkdownDataSerializer {
+
+  /**
+   * Serialize every schema and data block of a parse result, in source block order
+   */
+  serialize(result: ParseResult, options: SerializeOptions = {}): string {
+    const blocks: Array<{ order: number; text: string }> = [];
+
+    for (const schema of result.schemas.values()) {
+      blocks.push({ order: schema.blockNumber ?? 0, text: this.serializeSchema(schema) });
+    }
+
+    const dataBlocks = result.blockData.blocks.length > 0
+      ? result.blockData.blocks
+      : Array.from(result.data, ([schemaName, records]) => ({ blockNumber: 0, schemaName, records }));
+
+    for (const block of dataBlocks) {
+      const schema = result.schemas.get(block.schemaName);
+      blocks.push({
+        order: block.blockNumber,
+        text: this.serializeData(block.schemaName, block.records, schema, options)
+      });
+    }
+
+    // Stable sort keeps schemas ahead of data blocks that share an order
+    blocks.sort((a, b) => a.order - b.order);
+    return blocks.map(block => block.text).join('\n\n') + '\n';
+  }
+
+  /**
+   * Serialize a schema as a `!? datadef` block
+   */
+  serializeSchema(schema: DataSchema): string {
+    const lines = [`!? datadef ${schema.name}`];
+
+    for (const field of schema.fields) {
+      lines.push(`!fname: ${this.serializeField(field)}`);
+    }
+
+    for (const index of schema.indexes) {
+      lines.push(`!index: "${index.fields.join('+')}"`);
+    }
+
+    lines.push('!#');
+    return lines.join('\n');
+  }
+
+  /**
+   * Serialize records as a `!? data` block
+   * The `auto` layout writes a table unless the records cannot be represented as one;
+   * a `table` layout throws for values a table cell cannot hold
+   */
+  serializeData(
+    schemaName: string,
+    entries: DataEntry[],
+    schema?: DataSchema,
+    options: SerializeOptions = {}
+  ): string {
+    const rows = entries.map(entry => this.getEntryText(entry, schema));
+    const layout = options.layout || 'auto';
+    if (layout === 'table') {
+      const unsafe = this.findTableSyntax(rows);
+      if (unsafe) {
+        throw new Error(`Value for field '${unsafe}' in schema '${schemaName}' contains '|' or '!' and cannot be written to a table cell`);
+      }
+    }
+    const useTable = layout === 'table' || (layout === 'auto' && this.canUseTable(rows));
+
+    const body = useTable
+      ? this.serializeTable(rows, schema)
+      : this.serializeFreeform(rows);
+
+    return [`!? data ${schemaName}`, ...body, '!#'].join('\n');
+  }
+
+  /**
+   * Write a field definition as the text following `!fname:`
+   */
+  serializeField(field: FieldDefinition): string {
+    const parts = [field.name, `type: ${field.type}`];
+
+    if (field.label !== undefined) {
+      parts.push(`label: ${this.quote(field.label)}`);
+    }
+    if (field.format !== undefined) {
+      parts.push(`format: ${this.serializeFormat(field.format)}`);
+    }
+    if (field.required !== undefined) {
+      parts.push(`required: ${field.required}`);
+    }
+    if (field.ref !== undefined) {
+      parts.push(`ref: ${field.ref.schema}.${field.ref.field}`);
+    }
+    if (field.validation && Object.keys(field.validation).length > 0) {
+      parts.push(`valid: ${this.serializeRules(field.validation)}`);
+    }
+
+    return parts.join(', ');
+  }
+
+  private serializeFormat(format: string | DualFormat): string {
+    return typeof format === 'string'
+      ? this.quote(format)
+      : `{${this.quote(format.input)}, ${this.quote(format.display)}}`;
+  }
+
+  private serializeRules(rules: ValidationRules): string {
+    const parts: string[] = [];
+    const bound = (value: number | string) => typeof value === 'number' ? String(value) : this.quote(value);
+
+    if (rules.min !== undefined) parts.push(`min: ${bound(rules.min)}`);
+    if (rules.max !== undefined) parts.push(`max: ${bound(rules.max)}`);
+    if (rules.minLength !== undefined) parts.push(`minLength: ${rules.minLength}`);
+    if (rules.maxLength !== undefined) parts.push(`maxLength: ${rules.maxLength}`);
+    if (rules.oneOf !== undefined) parts.push(`oneOf: [${rules.oneOf.map(option => this.quote(option)).join(', ')}]`);
+
+    // Pattern goes last: the field attribute splitter stops at the first closing brace
+    if (rules.pattern !== undefined) {
+      parts.push(`pattern: ${rules.pattern.includes('"') ? `/${rules.pattern}/` : `"${rules.pattern}"`}`);
+    }
+
+    return `{${parts.join(', ')}}`;
+  }
+
+  private serializeTable(rows: Array<Map<string, string | null>>, schema?: DataSchema): string[] {
+    const columns = this.getColumns(rows, schema);
+    const widths = columns.map(column => Math.max(
+      column.length + 1,
+      3,
+      ...rows.map(row => (row.get(column) ?? '').length)
+    ));
+
+    const line = (cells: string[]) => `| ${cells.map((cell, i) => cell.padEnd(widths[i] ?? 0)).join(' | ')} |`;
+
+    return [
+      line(columns.map(column => `!${column}`)),
+      `|${widths.map(width => '-'.repeat(width + 2)).join('|')}|`,
+      ...rows.map(row => line(columns.map(column => row.get(column) ?? '')))
+    ];
+  }
+
+  private serializeFreeform(rows: Array<Map<string, string | null>>): string[] {
+    const lines: string[] = [];
+
+    rows.forEach((row, i) => {
+      if (i > 0) lines.push('!-');
+      for (const [name, value] of row) {
+        if (value === null || value === '') {
+          lines.push(`!${name}`);
+        } else {
+          // "name: value" keeps values containing colons intact
+          lines.push(value.includes(':') ? `!${name}: ${value}` : `!${name} ${value}`);
+        }
+      }
+    });
+
+    return lines;
+  }
+
+  /**
+   * A table needs every record to carry the same fields and no cell text
+   * that the tokenizer would read as table syntax or a header
+   */
+  private canUseTable(rows: Array<Map<string, string | null>>): boolean {
+    const first = rows[0];
+    if (!first) return true;
+
+    const keys = Array.from(first.keys()).sort().join('\n');
+    return rows.every(row => Array.from(row.keys()).sort().join('\n') === keys) && !this.findTableSyntax(rows);
+  }
+
+  /**
+   * Name of the first field whose value holds `|` or `!`, which a table cell would read as syntax
+   */
+  private findTableSyntax(rows: Array<Map<string, string | null>>): string | undefined {
+    for (const row of rows) {
+      for (const [name, value] of row) {
+        if (value !== null && /[|!]/.test(value)) return name;
+      }
+    }
+    return undefined;
+  }
+
+  private getColumns(rows: Array<Map<string, string | null>>, schema?: DataSchema): string[] {
+    const present = new Set(rows.flatMap(row => Array.from(row.keys())));
+    if (rows.length === 0 && schema) {
+      return schema.fields.map(field => field.name);
+    }
+
+    const ordered = (schema?.fields ?? []).map(field => field.name).filter(name => present.has(name));
+    return [...ordered, ...Array.from(present).filter(name => !ordered.includes(name))];
+  }
+
+  /**
+   * Text of each field value, preferring the original text kept by typedValues
+   */
+  private getEntryText(entry: DataEntry, schema?: DataSchema): Map<string, string | null> {
+    const fields = new Map((schema?.fields ?? []).map(field => [field.name, field]));
+    const text = new Map<string, string | null>();
+
+    for (const [name, value] of entry.fields) {
+      const raw = entry.rawFields?.has(name) ? entry.rawFields.get(name) : value;
+      const valueText = this.serializeValue(raw, fields.get(name));
+
+      if (valueText !== null && /[\r\n]/.test(valueText)) {
+        throw new Error(`Value for field '${name}' in schema '${entry.schemaName}' contains a line break and cannot be serialized`);
+      }
+      text.set(name, valueText);
+    }
+
+    return text;
+  }
+
+  /**
+   * Write a record value as cell or freeform text, or null for an empty value
+   * Dates use the field's date pattern, falling back to ISO 8601
+   */
+  serializeValue(value: unknown, field?: FieldDefinition): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    if (value instanceof Date) {
+      if (field?.type === DataType.TIME) {
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const seconds = value.getSeconds() ? `:${pad(value.getSeconds())}` : '';
+        return `${pad(value.getHours())}:${pad(value.getMinutes())}${seconds}`;
+      }
+
+      const parts = { year: value.getFullYear(), month: value.getMonth() + 1, day: value.getDate() };
+      const format = getInputDateFormat(field?.format);
+      return isDatePattern(format) ? formatDateWithFormat(parts, format) : toIsoDate(parts);
+    }
+
+    return String(value).trim();
+  }
+
+  /**
+   * Quote an attribute value, using single quotes when it contains double quotes
+   */
+  private quote(value: string): string {
+    return value.includes('"') ? `'${value}'` : `"${value}"`;
+  }
+}
@@ -1,5 +1,5 @@
-import { Token, TokenType, TokenPosition, ParseError, ErrorType } from './types.js';
-import { isValidSchemaName, isValidFieldName, formatErrorMessage } from './utils.js';
+import { Token, TokenType, TokenPosition, ParseError, ErrorType, SourceSpan } from './types.js';
+import { isValidSchemaName, isValidFieldName, formatErrorMessage, createSpan } from './utils.js';
 
 export class Tokenizer {
   private text: string;
@@ -85,29 +85,36 @@ export class Tokenizer {
     this.advance(); // ?
     this.skipWhitespace();
     
+    const typePosition = this.getCurrentPosition();
     const blockType = this.readWord();
     if (!blockType) {
-      this.addError(ErrorType.INVALID_BLOCK_SYNTAX, startPosition.line, {
+      this.addError(ErrorType.INVALID_BLOCK_SYNTAX, createSpan(startPosition, 2), {
         message: 'Missing block type after !? - expected "datadef" or "data"'
       });
       return this.createTokenAt(TokenType.BLOCK_START, '!?', startPosition);
     }
     
     if (blockType !== 'datadef' && blockType !== 'data') {
-      this.addError(ErrorType.INVALID_BLOCK_TYPE, startPosition.line, {
+      this.addError(ErrorType.INVALID_BLOCK_TYPE, createSpan(typePosition, blockType.length), {
         message: `Invalid block type "${blockType}" - expected "datadef" or "data"`
       });
     }
     
     this.skipWhitespace();
+    const namePosition = this.getCurrentPosition();
     const schemaName = this.readRestOfLine().trim();
-    
-    if (!schemaName) {
-      this.addError(ErrorType.INVALID_BLOCK_SYNTAX, startPosition.line, {
+
+    // External reference form: !? data [schema_name](path)
+    const externalMatch = schemaName.match(/^\[([^\]]*)\]\(([^)]*)\)$/);
+
+    if (externalMatch) {
+      this.validateBlockExternalReference(externalMatch[1] || '', externalMatch[2] || '', namePosition);
+    } else if (!schemaName) {
+      this.addError(ErrorType.INVALID_BLOCK_SYNTAX, createSpan(startPosition, typePosition.column + blockType.length - startPosition.column), {
         message: 'Missing schema name in block declaration'
       });
     } else if (!isValidSchemaName(schemaName)) {
-      this.addError(ErrorType.INVALID_SCHEMA_NAME, startPosition.line, {
+      this.addError(ErrorType.INVALID_SCHEMA_NAME, createSpan(namePosition, schemaName.length), {
         schemaName,
         message: `Invalid schema name "${schemaName}" - must start with letter and contain only letters, numbers, underscores`
       });
@@ -123,6 +130,25 @@ export class Tokenizer {
     return this.createTokenAt(TokenType.BLOCK_START, value, startPosition);
   }
 
+  /**
+   * Check the `[schema_name](path)` of a data block declaration, starting at linkPosition
+   */
+  private validateBlockExternalReference(schemaName: string, path: string, linkPosition: TokenPosition): void {
+    if (!isValidSchemaName(schemaName)) {
+      this.addError(ErrorType.MALFORMED_EXTERNAL_REFERENCE, createSpan(this.offsetPosition(linkPosition, 1), schemaName.length), {
+        schemaName,
+        message: `Invalid schema name "${schemaName}" in external reference`
+      });
+    }
+
+    if (!path.trim()) {
+      this.addError(ErrorType.MALFORMED_EXTERNAL_REFERENCE, createSpan(this.offsetPosition(linkPosition, schemaName.length + 2), path.length + 2), {
+        schemaName,
+        message: 'Empty path in external reference'
+      });
+    }
+  }
+
   private readFieldOrSpecial(startPosition: TokenPosition): Token {
     this.advance(); // !
     
@@ -137,6 +163,7 @@ export class Tokenizer {
     if (!this.inDataBlock) {
       // Reset position to just after the !
       this.position = startPosition.offset + 1;
+      this.column = startPosition.column + 1;
       return this.createTokenAt(TokenType.TEXT, '!', startPosition);
     }
     
@@ -152,16 +179,18 @@ export class Tokenizer {
     if (this.peekString(6) === 'index:') {
       this.advanceBy(6);
       this.skipWhitespace();
+      const valuePosition = this.getCurrentPosition();
       const indexDef = this.readRestOfLine().trim();
-      return this.createTokenAt(TokenType.INDEX_DEFINITION, indexDef, startPosition);
+      return { ...this.createTokenAt(TokenType.INDEX_DEFINITION, indexDef, startPosition), valuePosition };
     }
     
     // Check for field name !fname:
     if (this.peekString(6) === 'fname:') {
       this.advanceBy(6);
       this.skipWhitespace();
+      const valuePosition = this.getCurrentPosition();
       const fieldDef = this.readRestOfLine().trim();
-      return this.createTokenAt(TokenType.FIELD_NAME, fieldDef, startPosition);
+      return { ...this.createTokenAt(TokenType.FIELD_NAME, fieldDef, startPosition), valuePosition };
     }
     
     // Regular field value !fieldname value
@@ -171,13 +200,18 @@ export class Tokenizer {
     if (!fieldName || !isValidFieldName(fieldName)) {
       // Even inside a block, invalid field names are treated as text
       this.position = startPosition.offset + 1;
+      this.column = startPosition.column + 1;
       return this.createTokenAt(TokenType.TEXT, '!', startPosition);
     }
     
     this.skipWhitespace();
+    const valuePosition = this.getCurrentPosition();
     const fieldValue = this.readRestOfLine().trim();
     
-    return this.createTokenAt(TokenType.FIELD_VALUE, `${fieldName} ${fieldValue}`.trim(), startPosition);
+    return {
+      ...this.createTokenAt(TokenType.FIELD_VALUE, `${fieldName} ${fieldValue}`.trim(), startPosition),
+      valuePosition
+    };
   }
 
   private readTableElement(startPosition: TokenPosition): Token {
@@ -235,7 +269,7 @@ export class Tokenizer {
     this.advance(); // (
     
     if (!isValidSchemaName(schemaName)) {
-      this.addError(ErrorType.MALFORMED_EXTERNAL_REFERENCE, startPosition.line, {
+      this.addError(ErrorType.MALFORMED_EXTERNAL_REFERENCE, createSpan(this.offsetPosition(startPosition, 1), schemaName.length), {
         message: `Invalid schema name "${schemaName}" in external reference`
       });
     }
@@ -245,8 +279,10 @@ export class Tokenizer {
       path += this.advance();
     }
     
+    // The link up to its opening parenthesis, as the path may run on to the end of the text
+    const linkSpan = createSpan(startPosition, schemaName.length + 3);
     if (this.peek() !== ')') {
-      this.addError(ErrorType.UNCLOSED_LITERAL, startPosition.line, {
+      this.addError(ErrorType.UNCLOSED_LITERAL, linkSpan, {
         message: 'Unclosed external reference - missing closing parenthesis'
       });
     } else {
@@ -254,7 +290,7 @@ export class Tokenizer {
     }
     
     if (!path.trim()) {
-      this.addError(ErrorType.MALFORMED_EXTERNAL_REFERENCE, startPosition.line, {
+      this.addError(ErrorType.MALFORMED_EXTERNAL_REFERENCE, linkSpan, {
         message: 'Empty path in external reference'
       });
     }
@@ -360,19 +396,46 @@ export class Tokenizer {
     return {
       type,
       value,
-      position
+      position,
+      end: this.getTokenEnd(position)
+    };
+  }
+
+  /**
+   * Position just past the last non-whitespace character read since a token started
+   */
+  private getTokenEnd(start: TokenPosition): TokenPosition {
+    let offset = this.position;
+    while (offset > start.offset && /\s/.test(this.text[offset - 1] ?? '')) {
+      offset--;
+    }
+    if (offset === start.offset) {
+      return { ...start };
+    }
+    return {
+      line: this.line,
+      column: this.column - (this.position - offset),
+      offset
+    };
+  }
+
+  private offsetPosition(position: TokenPosition, delta: number): TokenPosition {
+    return {
+      line: position.line,
+      column: position.column + delta,
+      offset: position.offset + delta
     };
   }
 
   private addError(
     type: ErrorType, 
-    lineNumber: number, 
+    span: SourceSpan, 
     details: { message?: string; fieldName?: string; schemaName?: string }
   ): void {
     this.errors.push({
       type,
       message: formatErrorMessage(type, details),
-      lineNumber,
+      ...span,
       fieldName: details.fieldName,
       schemaName: details.schemaName
     });
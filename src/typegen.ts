@@ -0,0 +1,156 @@
+import {
+  DataSchema,
+  DataType,
+  FieldDefinition,
+  ParseResult,
+  TypeGenerationOptions
+} from './types.js';
+import { DataTypeConverter } from './data-types.js';
+
+const PACKAGE_NAME = '@chrishoward-projects/markdown-data-ext-parser';
+
+/**
+ * Generates TypeScript interfaces for schema definitions, plus a `getRecords()`
+ * accessor that returns each schema's records as its interface
+ */
+export class TypeScriptGenerator {
+
+  /**
+   * Emit a TypeScript module for every schema in the map
+   * Throws when two schema names map to the same interface name
+   */
+  generate(schemas: Map<string, DataSchema>, options: TypeGenerationOptions = {}): string {
+    const importFrom = options.importFrom || PACKAGE_NAME;
+    const names = new Map<string, string>();
+
+    for (const schemaName of schemas.keys()) {
+      const interfaceName = this.interfaceName(schemaName);
+      const clash = Array.from(names).find(([, name]) => name === interfaceName);
+      if (clash || interfaceName === 'DataRecords') {
+        throw new Error(`Schema '${schemaName}' maps to interface '${interfaceName}', which is already in use${clash ? ` by schema '${clash[0]}'` : ''}`);
+      }
+      names.set(schemaName, interfaceName);
+    }
+
+    const lines = [
+      '// Generated from markdown data schemas - do not edit by hand',
+      `import type { DataSchema, ParseResult } from '${importFrom}';`,
+      `import { getTypedRecords } from '${importFrom}';`,
+      ''
+    ];
+
+    for (const [schemaName, schema] of schemas) {
+      lines.push(...this.generateInterface(schema, names.get(schemaName) || schemaName), '');
+    }
+
+    lines.push(
+      '/** Record interface for each schema name */',
+      'export interface DataRecords {',
+      ...Array.from(names, ([schemaName, interfaceName]) => `  ${schemaName}: ${interfaceName};`),
+      '}',
+      '',
+      '/** Records of a schema with values converted to their field types; pass the schema of one defined in another file */',
+      'export function getRecords<K extends keyof DataRecords>(result: ParseResult, schemaName: K, schema?: DataSchema): Array<DataRecords[K]> {',
+      '  return getTypedRecords<DataRecords[K]>(result, schemaName, schema);',
+      '}',
+      ''
+    );
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Emit the interface for one schema; fields that are not required are optional
+   */
+  generateInterface(schema: DataSchema, interfaceName: string = this.interfaceName(schema.name)): string[] {
+    const lines = [`export interface ${interfaceName} {`];
+
+    for (const field of schema.fields) {
+      if (field.label) {
+        lines.push(`  /** ${field.label.replace(/\*\//g, '*\\/')} */`);
+      }
+      lines.push(`  ${field.name}${field.required ? '' : '?'}: ${this.fieldType(field)};`);
+    }
+
+    lines.push('}');
+    return lines;
+  }
+
+  /**
+   * PascalCase interface name for a schema, e.g. order_lines to OrderLines
+   */
+  interfaceName(schemaName: string): string {
+    return schemaName
+      .split('_')
+      .filter(part => part !== '')
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('');
+  }
+
+  private fieldType(field: FieldDefinition): string {
+    const options = field.validation?.oneOf;
+
+    switch (field.type) {
+      case DataType.NUMBER:
+        return hasNumericOptions(field)
+          ? (options || []).map(option => String(Number(option))).join(' | ')
+          : 'number';
+      case DataType.BOOLEAN:
+        return 'boolean';
+      case DataType.DATE:
+      case DataType.TIME:
+        return 'Date';
+      default:
+        return options && options.length > 0
+          ? options.map(option => `'${option.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(' | ')
+          : 'string';
+    }
+  }
+}
+
+/**
+ * Records of a schema as plain objects with values converted to their field types:
+ * numbers, booleans, and Date objects for dates and times
+ * Empty values are left out, so optional fields are absent rather than null
+ * Records that do not fit the generated interface - a value of the wrong type or outside
+ * its `oneOf` options, or a missing required field - are left out; the parse reports them
+ * Pass the schema of data blocks that use one defined in another file
+ */
+export function getTypedRecords<T>(result: ParseResult, schemaName: string, schema?: DataSchema): T[] {
+  const resolved = schema || result.schemas.get(schemaName);
+  if (!resolved) {
+    throw new Error(`Schema '${schemaName}' not found in parse result - pass the schema of records that use an external one`);
+  }
+  const converter = new DataTypeConverter();
+
+  return (result.data.get(schemaName) || [])
+    .map(entry => converter.convertRecord(entry, resolved))
+    .filter(record => resolved.fields.every(field => fitsField(record[field.name], field)))
+    .map(record => record as T);
+}
+
+/**
+ * Whether a converted value has the type generateInterface declares for its field
+ */
+function fitsField(value: unknown, field: FieldDefinition): boolean {
+  if (value === undefined) return !field.required;
+
+  const options = field.validation?.oneOf;
+  switch (field.type) {
+    case DataType.NUMBER:
+      return typeof value === 'number' && !isNaN(value) &&
+        (!hasNumericOptions(field) || (options || []).some(option => Number(option) === value));
+    case DataType.BOOLEAN:
+      return typeof value === 'boolean';
+    case DataType.DATE:
+    case DataType.TIME:
+      return value instanceof Date && !isNaN(value.getTime());
+    default:
+      return typeof value === 'string' && (!options || options.length === 0 || options.includes(value.trim()));
+  }
+}
+
+function hasNumericOptions(field: FieldDefinition): boolean {
+  const options = field.validation?.oneOf;
+  return Boolean(options && options.length > 0 && options.every(option => option.trim() !== '' && !isNaN(Number(option))));
+}
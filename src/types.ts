@@ -35,7 +35,12 @@ export enum ErrorType {
   INVALID_CHARACTER = 'invalid_character',
   MALFORMED_DUAL_FORMAT = 'malformed_dual_format',
   MALFORMED_VALIDATION_RULES = 'malformed_validation_rules',
-  MALFORMED_EXTERNAL_REFERENCE = 'malformed_external_reference'
+  MALFORMED_EXTERNAL_REFERENCE = 'malformed_external_reference',
+  CIRCULAR_REFERENCE = 'circular_reference',
+  DUPLICATE_KEY = 'duplicate_key',
+  INVALID_REFERENCE = 'invalid_reference',
+  DANGLING_REFERENCE = 'dangling_reference',
+  SCHEMA_CONFLICT = 'schema_conflict'
 }
 
 export interface DualFormat {
@@ -43,12 +48,29 @@ export interface DualFormat {
   display: string;
 }
 
+export interface ValidationRules {
+  min?: number | string;
+  max?: number | string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  oneOf?: string[];
+}
+
 export interface FieldDefinition {
   name: string;
   type: DataType;
   label?: string;
   format?: string | DualFormat;
   required?: boolean;
+  validation?: ValidationRules;
+  /** Foreign key declared with `ref: schema.field` */
+  ref?: FieldReference;
+}
+
+export interface FieldReference {
+  schema: string;
+  field: string;
 }
 
 export interface IndexDefinition {
@@ -63,16 +85,24 @@ export interface DataSchema {
   sourcePath?: string;
   lineNumber?: number;
   blockNumber?: number;
+  /** Set when ParseOptions.recoverSchemas kept the schema despite errors in its definition */
+  partial?: boolean;
+  /** Fields of a partial schema left out because their definitions had errors */
+  omittedFields?: string[];
 }
 
 export interface DataEntry {
   schemaName: string;
   fields: Map<string, unknown>;
+  rawFields?: Map<string, unknown>;
+  fieldPositions?: Map<string, TokenPosition>;
   lineNumber?: number;
   sourceFile?: string;
   recordIndex?: number;
   blockNumber?: number;
   recordNumber?: number;
+  /** Records referenced by this record's `ref:` fields, by field name */
+  references?: Map<string, DataEntry>;
 }
 
 export interface ParseError {
@@ -80,22 +110,59 @@ export interface ParseError {
   message: string;
   lineNumber?: number;
   columnNumber?: number;
+  /** Line and column just past the end of the text the error points at */
+  endLineNumber?: number;
+  endColumnNumber?: number;
   schemaName?: string;
   fieldName?: string;
   sourceFile?: string;
   blockNumber?: number;
   blockType?: 'datadef' | 'data';
+  recordNumber?: number;
+  value?: string;
+  expectedType?: DataType;
+  referenceChain?: ReferenceLink[];
+  /** Line of the earlier record a duplicate key conflicts with */
+  relatedLineNumber?: number;
+  /** Suggested corrections, as edits to the parsed document's text */
+  fixes?: QuickFix[];
+}
+
+/**
+ * Text an error points at: one-based lines and columns, ending just past its last character
+ */
+export interface SourceSpan {
+  lineNumber: number;
+  columnNumber: number;
+  endLineNumber: number;
+  endColumnNumber: number;
+}
+
+/**
+ * A correction for a parse problem that an editor or `mdl-data validate --fix` can apply
+ */
+export interface QuickFix {
+  title: string;
+  edits: TextEdit[];
+}
+
+export interface ReferenceLink {
+  path: string;
+  lineNumber?: number;
 }
 
 export interface ParseWarning {
   message: string;
   lineNumber?: number;
   columnNumber?: number;
+  endLineNumber?: number;
+  endColumnNumber?: number;
   schemaName?: string;
   fieldName?: string;
   sourceFile?: string;
   blockNumber?: number;
   blockType?: 'datadef' | 'data';
+  fixes?: QuickFix[];
 }
 
 export interface ParseOptions {
@@ -104,6 +171,35 @@ export interface ParseOptions {
   loadExternalSchemas?: boolean;
   schemaCache?: SchemaCache;
   sourceFile?: string;
+  schemaResolver?: SchemaResolver;
+  maxReferenceDepth?: number;
+  typedValues?: boolean;
+  /** Keep schemas with errors, marked partial and without their broken fields, instead of dropping them */
+  recoverSchemas?: boolean;
+  /** Schemas for data blocks whose schema the document does not define itself, such as a Workspace's */
+  schemaRegistry?: Map<string, DataSchema>;
+}
+
+/**
+ * Result of parsing the files of a Workspace
+ */
+export interface WorkspaceResult {
+  /** Each file's own parse result by absolute path, in path order */
+  files: Map<string, ParseResult>;
+  /** The schema registry: the first definition of each schema name, in path order */
+  schemas: Map<string, DataSchema>;
+  /** Records of each schema across all files */
+  data: Map<string, DataEntry[]>;
+  /** Problems of every file, each naming its sourceFile */
+  errors: ParseError[];
+  warnings: ParseWarning[];
+}
+
+export interface SchemaResolver {
+  /** Canonical location of a referenced path, used for caching and error reporting */
+  resolvePath(path: string, fromFile?: string): string;
+  /** Load the markdown text, or a ready-made schema, at a referenced path */
+  resolve(path: string, fromFile?: string): Promise<string | DataSchema>;
 }
 
 export interface DataBlock {
@@ -126,6 +222,8 @@ export interface ParseResult {
   schemas: Map<string, DataSchema>;
   data: Map<string, DataEntry[]>;
   blockData: BlockGroupedData;
+  /** Lookup of each schema's records by index name, built from its `!index:` definitions */
+  indexes: Map<string, Map<string, RecordIndex>>;
   errors: ParseError[];
   warnings: ParseWarning[];
   metadata: {
@@ -136,6 +234,30 @@ export interface ParseResult {
   };
 }
 
+/**
+ * Event yielded by parseStream() as each block of a document is completed
+ * Data blocks without records yield no `data` event
+ */
+export type ParseEvent =
+  | { type: 'schema'; schema: DataSchema }
+  | { type: 'data'; block: DataBlock; schema: DataSchema }
+  | { type: 'error'; error: ParseError }
+  | { type: 'warning'; warning: ParseWarning }
+  | { type: 'end'; metadata: ParseResult['metadata'] };
+
+/**
+ * Records of a schema keyed by the values of an index's fields
+ * Keys are unique: the first record with a key is kept and later ones are reported as duplicates
+ */
+export interface RecordIndex {
+  name: string;
+  fields: string[];
+  size: number;
+  /** Record with these field values, in index field order; raw text and typed values both match */
+  get(...values: unknown[]): DataEntry | undefined;
+  has(...values: unknown[]): boolean;
+}
+
 export interface SchemaCache {
   cache: Map<string, DataSchema>;
   get(path: string): DataSchema | undefined;
@@ -153,6 +275,9 @@ export interface Token {
   type: TokenType;
   value: string;
   position: TokenPosition;
+  valuePosition?: TokenPosition;
+  /** Just past the token's last non-whitespace character */
+  end?: TokenPosition;
 }
 
 export enum TokenType {
@@ -191,6 +316,133 @@ export interface ValidationResult {
   warnings: ParseWarning[];
 }
 
+export interface FormatterOptions {
+  /** BCP 47 locale used for separators and currency placement (default: 'en-US') */
+  locale?: string;
+  /** ISO 4217 code used for the generic `$` currency symbol (default: 'USD') */
+  currency?: string;
+  /** Lay out patterns such as `€n.n,##` with the separators they write instead of the locale's (default: false) */
+  literalSeparators?: boolean;
+}
+
+export interface TextEdit {
+  /** Offset of the first replaced character */
+  start: number;
+  /** Offset just past the last replaced character; equal to start for insertions */
+  end: number;
+  newText: string;
+}
+
+/**
+ * One edit to a document's text, as reported by editors on each keystroke
+ */
+export interface TextChange {
+  /** Offset of the first deleted character, or of the insertion point */
+  offset: number;
+  /** Number of characters removed at offset */
+  deletedLength: number;
+  /** Text inserted at offset */
+  insertedText: string;
+}
+
+export interface SerializeOptions {
+  /** Data block layout; `auto` writes tables unless records need freeform, `table` throws for values a cell cannot hold (default: 'auto') */
+  layout?: 'table' | 'freeform' | 'auto';
+}
+
+export interface CsvExportOptions {
+  /** Cell delimiter; use '\t' for TSV (default: ',') */
+  delimiter?: string;
+  /** Header row text: field labels (falling back to names) or field names (default: 'label') */
+  headers?: 'label' | 'name';
+  /** Write values in their display format instead of their source text (default: true) */
+  formatted?: boolean;
+}
+
+export interface CsvImportOptions {
+  /** Cell delimiter; use '\t' for TSV (default: ',') */
+  delimiter?: string;
+}
+
+export interface CsvImportResult {
+  /** The imported rows as a `!? data` block */
+  markdown: string;
+  entries: DataEntry[];
+  /** Header, CSV syntax and record validation errors; line numbers refer to the CSV input */
+  errors: ParseError[];
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * The subset of JSON Schema draft 2020-12 produced and read by JsonSchemaConverter
+ * `x-mdl-*` annotations keep details JSON Schema has no keyword for, so conversions round-trip
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  format?: string;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  enum?: unknown[];
+  const?: unknown;
+  'x-mdl-type'?: DataType;
+  'x-mdl-format'?: string | DualFormat;
+  'x-mdl-validation'?: Pick<ValidationRules, 'min' | 'max'>;
+  'x-mdl-indexes'?: string[][];
+  /** Foreign key as "schema.field" */
+  'x-mdl-ref'?: string;
+}
+
+export interface JsonSchemaExportOptions {
+  /** Value for the `$id` keyword */
+  id?: string;
+}
+
+export interface JsonSchemaImportOptions {
+  /** Schema name for the `!? datadef` block (default: the JSON Schema `title`) */
+  name?: string;
+}
+
+export interface JsonSchemaImportResult {
+  schema: DataSchema;
+  /** The schema as a `!? datadef` block */
+  markdown: string;
+}
+
+/**
+ * Field comparison used by RecordQuery.where()
+ * Text operators (contains, startsWith, endsWith) ignore case
+ */
+export type QueryOperator =
+  | 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte'
+  | 'before' | 'after' | 'between' | 'in'
+  | 'contains' | 'startsWith' | 'endsWith'
+  | 'empty' | 'notEmpty';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface Aggregate {
+  fn: AggregateFunction;
+  /** Field to aggregate; `count` without a field counts records */
+  field?: string;
+}
+
+export interface TypeGenerationOptions {
+  /** Module the generated code imports `ParseResult` and `getTypedRecords` from (default: this package) */
+  importFrom?: string;
+}
+
 export interface DataFormatter {
   formatValue(value: unknown, field: FieldDefinition): FormattedValue;
   parseValue(input: string, field: FieldDefinition): unknown;
@@ -199,13 +451,22 @@ export interface DataFormatter {
 
 export interface MarkdownDataParser {
   parse(markdown: string, options?: ParseOptions): ParseResult;
+  parseAsync(markdown: string, options?: ParseOptions): Promise<ParseResult>;
   parseFile(filePath: string, options?: ParseOptions): Promise<ParseResult>;
+  reparse(previous: ParseResult, change: TextChange): ParseResult;
+  parseStream(source: AsyncIterable<string | Uint8Array>, options?: ParseOptions): AsyncGenerator<ParseEvent, void, undefined>;
   validateSchema(schema: DataSchema): ValidationResult;
   validateData(data: DataEntry[], schema: DataSchema): ValidationResult;
   getSchema(name: string): DataSchema | undefined;
   clearCache(): void;
 }
 
+export interface ExternalSchemaSource {
+  path: string;
+  schemas: Map<string, DataSchema>;
+  error?: string;
+}
+
 export interface ParserState {
   currentLine: number;
   currentColumn: number;
@@ -217,9 +478,12 @@ export interface ParserState {
   currentBlockNumber?: number;
   currentRecordNumber?: number;
   schemas: Map<string, DataSchema>;
+  /** Schema each data block's records were parsed against, including external schemas */
+  dataSchemas: Map<string, DataSchema>;
   data: Map<string, DataEntry[]>;
   blocks: DataBlock[];
   errors: ParseError[];
   warnings: ParseWarning[];
   options: ParseOptions;
+  externalSources?: Map<string, ExternalSchemaSource>;
 }
\ No newline at end of file
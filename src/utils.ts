@@ -1,4 +1,4 @@
-import { DataType, DualFormat, SchemaCache as ISchemaCache, DataSchema } from './types.js';
+import { DataType, DualFormat, SchemaCache as ISchemaCache, DataEntry, DataSchema, QuickFix, SourceSpan, Token, TokenPosition, ValidationRules } from './types.js';
 
 export class SchemaCache implements ISchemaCache {
   public cache = new Map<string, DataSchema>();
@@ -49,8 +49,8 @@ export function parseFormat(formatString: string): string | DualFormat {
   
   if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
     try {
-      const content = trimmed.slice(1, -1);
-      const parts = content.split(',').map(part => part.trim().replace(/^["']|["']$/g, ''));
+      // Patterns such as "MMM D, YYYY" hold commas of their own
+      const parts = splitTopLevel(trimmed.slice(1, -1)).map(unquote);
       
       if (parts.length === 2) {
         return {
@@ -67,6 +67,127 @@ export function parseFormat(formatString: string): string | DualFormat {
 }
 
 
+/**
+ * Parse a `valid: {...}` attribute into validation rules
+ * Throws with a descriptive message when the rule syntax is malformed
+ */
+export function parseValidationRules(ruleString: string): ValidationRules {
+  const trimmed = ruleString.trim();
+
+  if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) {
+    throw new Error('expected {key: value, ...} format');
+  }
+
+  const rules: ValidationRules = {};
+  const pairs = splitTopLevel(trimmed.slice(1, -1));
+
+  if (pairs.length === 0) {
+    throw new Error('no validation rules specified');
+  }
+
+  for (const pair of pairs) {
+    const colonIndex = pair.indexOf(':');
+    if (colonIndex === -1) {
+      throw new Error(`expected "key: value" but found "${pair}"`);
+    }
+
+    const key = pair.substring(0, colonIndex).trim();
+    const value = pair.substring(colonIndex + 1).trim();
+
+    if (!value) {
+      throw new Error(`missing value for rule "${key}"`);
+    }
+
+    switch (key) {
+      case 'min':
+      case 'max': {
+        const unquoted = unquote(value);
+        const numeric = Number(unquoted);
+        rules[key] = unquoted === value && !isNaN(numeric) ? numeric : unquoted;
+        break;
+      }
+      case 'minLength':
+      case 'maxLength': {
+        const length = Number(value);
+        if (!Number.isInteger(length) || length < 0) {
+          throw new Error(`"${key}" must be a non-negative integer`);
+        }
+        rules[key] = length;
+        break;
+      }
+      case 'pattern': {
+        const pattern = value.startsWith('/') && value.endsWith('/') && value.length > 1
+          ? value.slice(1, -1)
+          : unquote(value);
+        try {
+          new RegExp(pattern);
+        } catch {
+          throw new Error(`invalid pattern "${pattern}"`);
+        }
+        rules.pattern = pattern;
+        break;
+      }
+      case 'oneOf':
+      case 'options': {
+        if (!value.startsWith('[') || !value.endsWith(']')) {
+          throw new Error(`"${key}" must be a list like ["a", "b"]`);
+        }
+        rules.oneOf = splitTopLevel(value.slice(1, -1)).map(unquote);
+        break;
+      }
+      default:
+        throw new Error(`unknown rule "${key}" - supported rules: min, max, minLength, maxLength, pattern, oneOf`);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Split on commas that are not inside quotes or brackets
+ */
+function splitTopLevel(content: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoteChar = '';
+  let depth = 0;
+
+  for (const char of content) {
+    if (quoteChar) {
+      if (char === quoteChar) quoteChar = '';
+    } else if (char === '"' || char === "'") {
+      quoteChar = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (quoteChar) {
+    throw new Error('unclosed quote');
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+
+  return parts;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed[trimmed.length - 1] === trimmed[0]) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
 export function parseIndexDefinition(indexString: string): string[] {
   const trimmed = indexString.trim().replace(/^["']|["']$/g, '');
   return trimmed.split('+').map(field => field.trim()).filter(field => field.length > 0);
@@ -84,10 +205,106 @@ export function createDefaultParseOptions(): import('./types.js').ParseOptions {
   return {
     validateData: true,
     loadExternalSchemas: true,
-    schemaCache: new SchemaCache()
+    schemaCache: new SchemaCache(),
+    maxReferenceDepth: 10
+  };
+}
+
+/**
+ * Span of `length` characters on one line, starting at a position
+ */
+export function createSpan(position: TokenPosition, length: number): SourceSpan {
+  return {
+    lineNumber: position.line,
+    columnNumber: position.column,
+    endLineNumber: position.line,
+    endColumnNumber: position.column + length
   };
 }
 
+/**
+ * Span of a token's text, without trailing whitespace
+ */
+export function tokenSpan(token: Token): SourceSpan {
+  const end = token.end || token.position;
+  return {
+    lineNumber: token.position.line,
+    columnNumber: token.position.column,
+    endLineNumber: end.line,
+    endColumnNumber: end.column
+  };
+}
+
+/**
+ * Span of a record's value for a field, when the record was read from a document and the value is not empty
+ */
+export function fieldValueSpan(entry: DataEntry, fieldName: string): SourceSpan | undefined {
+  const position = entry.fieldPositions?.get(fieldName);
+  const raw = entry.rawFields?.has(fieldName) ? entry.rawFields.get(fieldName) : entry.fields.get(fieldName);
+  if (!position || raw === null || raw === undefined || String(raw) === '') return undefined;
+  return createSpan(position, String(raw).length);
+}
+
+/**
+ * Quick fix replacing `length` characters at a position; a length of 0 inserts
+ */
+export function createFix(title: string, position: TokenPosition, length: number, newText: string): QuickFix {
+  return { title, edits: [{ start: position.offset, end: position.offset + length, newText }] };
+}
+
+/**
+ * Fixes replacing a misspelled name at a position with each of its nearest candidates
+ */
+export function createNameFixes(name: string, candidates: Iterable<string>, position: TokenPosition): QuickFix[] {
+  return suggestNames(name, candidates).map(suggestion => createFix(`Change to '${suggestion}'`, position, name.length, suggestion));
+}
+
+/**
+ * Number of single-character insertions, deletions, substitutions and
+ * adjacent swaps needed to turn one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min((rows[i - 1]?.[j] ?? 0) + 1, (row[j - 1] ?? 0) + 1, (rows[i - 1]?.[j - 1] ?? 0) + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, (rows[i - 2]?.[j - 2] ?? 0) + 1);
+      }
+      row.push(distance);
+    }
+    rows.push(row);
+  }
+
+  return rows[a.length]?.[b.length] ?? 0;
+}
+
+/**
+ * The candidates nearest to a misspelled name, ignoring case
+ * Returns nothing when even the nearest differs in more than a third of the name
+ */
+export function suggestNames(name: string, candidates: Iterable<string>): string[] {
+  const limit = Math.max(1, Math.floor(name.length / 3));
+  let best: string[] = [];
+  let bestDistance = limit + 1;
+
+  for (const candidate of new Set(candidates)) {
+    if (candidate === name) continue;
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = [candidate];
+      bestDistance = distance;
+    } else if (distance === bestDistance) {
+      best.push(candidate);
+    }
+  }
+
+  return best;
+}
+
 export function formatErrorMessage(
   type: import('./types.js').ErrorType,
   details: {
@@ -159,6 +376,16 @@ export function formatErrorMessage(
       return `Malformed validation rules - expected {key: value, ...} format`;
     case 'malformed_external_reference':
       return `Malformed external reference - expected [schema_name](path) format`;
+    case 'circular_reference':
+      return `Circular external schema reference`;
+    case 'duplicate_key':
+      return `Duplicate key for unique index in schema '${schemaName || 'unknown'}'`;
+    case 'invalid_reference':
+      return `Field '${fieldName || 'unknown'}' references an unknown schema or field`;
+    case 'dangling_reference':
+      return `Value for field '${fieldName || 'unknown'}' does not match any referenced record`;
+    case 'schema_conflict':
+      return `Schema '${schemaName || 'unknown'}' is defined differently in another file`;
     default:
       return `Unknown parser error`;
   }
@@ -1,4 +1,5 @@
-import { DataSchema, DataEntry, ParseError, ErrorType } from '../types.js';
+import { DataSchema, DataEntry, ParseError, ErrorType, SourceSpan, TokenPosition } from '../types.js';
+import { createNameFixes, createSpan } from '../utils.js';
 
 /**
  * Dedicated header validation module
@@ -8,91 +9,120 @@ export class HeaderValidator {
 
   /**
    * Validates table headers against schema definition
+   * Errors point at the header cell when its span from parseTableHeader() is given,
+   * and suggest the nearest field names when the position of the header's name is too
    */
   validateHeaders(
     headers: string[], 
     schema: DataSchema, 
     schemaName: string, 
     lineNumber: number,
-    blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data' }
+    blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data' },
+    headerSpans?: SourceSpan[],
+    namePositions?: TokenPosition[]
   ): ParseError[] {
     const errors: ParseError[] = [];
     const schemaFieldNames = new Set(schema.fields.map(f => f.name));
+    // Fields left out of a partial schema are reported at their definitions
+    const omittedFields = new Set(schema.omittedFields);
     
-    for (const header of headers) {
-      if (!schemaFieldNames.has(header)) {
+    headers.forEach((header, index) => {
+      if (!schemaFieldNames.has(header) && !omittedFields.has(header)) {
+        const namePosition = namePositions?.[index];
+        const fixes = namePosition ? createNameFixes(header, [...schemaFieldNames, ...omittedFields], namePosition) : [];
         errors.push({
           type: ErrorType.INVALID_FIELD_NAME,
           message: `Header '${header}' does not match any field in schema '${schemaName}'`,
           fieldName: header,
           schemaName: schemaName,
           lineNumber: lineNumber,
+          ...headerSpans?.[index],
+          ...(fixes.length > 0 && { fixes }),
           ...(blockContext?.blockNumber !== undefined && { blockNumber: blockContext.blockNumber }),
           ...(blockContext?.blockType && { blockType: blockContext.blockType })
         });
       }
-    }
+    });
     
     return errors;
   }
 
   /**
    * Parses and validates table header syntax
+   * Returns the span of each header cell and the position of its field name after any `!`,
+   * starting from the header line's position
    */
   parseTableHeader(
     headerLine: string, 
-    lineNumber: number,
+    position: TokenPosition,
     blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data' }
-  ): { headers: string[]; errors: ParseError[] } {
+  ): { headers: string[]; spans: SourceSpan[]; namePositions: TokenPosition[]; errors: ParseError[] } {
     const headers: string[] = [];
+    const spans: SourceSpan[] = [];
+    const namePositions: TokenPosition[] = [];
     const errors: ParseError[] = [];
+    const positionAt = (start: number): TokenPosition =>
+      ({ ...position, column: position.column + start, offset: position.offset + start });
+    const cellSpan = (start: number, length: number) => createSpan(positionAt(start), length);
     
     // Validate basic table syntax
     if (!headerLine.startsWith('|') || !headerLine.endsWith('|')) {
       errors.push({
         type: ErrorType.INVALID_TABLE_SYNTAX,
         message: 'Table header must start and end with pipe (|) character',
-        lineNumber: lineNumber,
+        ...cellSpan(0, headerLine.trimEnd().length),
         ...(blockContext?.blockNumber !== undefined && { blockNumber: blockContext.blockNumber }),
         ...(blockContext?.blockType && { blockType: blockContext.blockType })
       });
     }
     
     // Parse markdown table header: | !field1 | !field2 | field3 |
-    const cells = headerLine.split('|').map(cell => cell.trim()).filter(cell => cell.length > 0);
+    const cells: Array<{ text: string; start: number }> = [];
+    let cursor = 0;
+    for (const rawCell of headerLine.split('|')) {
+      const text = rawCell.trim();
+      if (text.length > 0) {
+        cells.push({ text, start: cursor + rawCell.length - rawCell.trimStart().length });
+      }
+      cursor += rawCell.length + 1;
+    }
     
     if (cells.length === 0) {
       errors.push({
         type: ErrorType.INVALID_TABLE_SYNTAX,
         message: 'Table header contains no field definitions',
-        lineNumber: lineNumber,
+        ...cellSpan(0, headerLine.trimEnd().length),
         ...(blockContext?.blockNumber !== undefined && { blockNumber: blockContext.blockNumber }),
         ...(blockContext?.blockType && { blockType: blockContext.blockType })
       });
-      return { headers, errors };
+      return { headers, spans, namePositions, errors };
     }
     
-    for (const cell of cells) {
+    for (const { text: cell, start } of cells) {
       if (cell.startsWith('!')) {
         const fieldName = cell.substring(1);
         if (!fieldName) {
           errors.push({
             type: ErrorType.INVALID_TABLE_SYNTAX,
             message: 'Empty field name in table header (! with no field name)',
-            lineNumber: lineNumber,
+            ...cellSpan(start, cell.length),
             ...(blockContext?.blockNumber !== undefined && { blockNumber: blockContext.blockNumber }),
             ...(blockContext?.blockType && { blockType: blockContext.blockType })
           });
           continue;
         }
         headers.push(fieldName);
+        spans.push(cellSpan(start, cell.length));
+        namePositions.push(positionAt(start + 1));
       } else if (cell.length > 0) {
         // Regular field name without ! prefix - warn but allow
         headers.push(cell);
+        spans.push(cellSpan(start, cell.length));
+        namePositions.push(positionAt(start));
       }
     }
     
-    return { headers, errors };
+    return { headers, spans, namePositions, errors };
   }
 
 }
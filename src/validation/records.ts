@@ -0,0 +1,254 @@
+import { DataEntry, DataSchema, DataType, FieldDefinition, ParseError, ParseWarning, ErrorType } from '../types.js';
+import { getInputDateFormat, isAmbiguousDate, isDatePattern, readDate, toDateTime } from '../date-format.js';
+import { fieldValueSpan } from '../utils.js';
+import { TypeValidator } from './type.js';
+
+/**
+ * Dedicated record validation module
+ * Checks parsed data entries against the constraints declared in their schema
+ */
+export class RecordValidator {
+  private typeValidator: TypeValidator;
+
+  constructor() {
+    this.typeValidator = new TypeValidator();
+  }
+
+  /**
+   * Validates every record of a data block against its schema
+   */
+  validateRecords(
+    entries: DataEntry[],
+    schema: DataSchema,
+    blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data' }
+  ): ParseError[] {
+    const errors: ParseError[] = [];
+
+    for (const entry of entries) {
+      errors.push(...this.validateRequiredFields(entry, schema, blockContext));
+      errors.push(...this.validateTypes(entry, schema, blockContext));
+      errors.push(...this.validateRules(entry, schema, blockContext));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Warns about numeric dates that read differently as day/month and month/day
+   * in fields that do not declare a date pattern to settle the order
+   */
+  findAmbiguousDates(
+    entries: DataEntry[],
+    schema: DataSchema,
+    blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data' }
+  ): ParseWarning[] {
+    const warnings: ParseWarning[] = [];
+    const dateFields = schema.fields.filter(f =>
+      f.type === DataType.DATE && !isDatePattern(getInputDateFormat(f.format))
+    );
+
+    for (const entry of entries) {
+      for (const field of dateFields) {
+        const value = entry.fields.get(field.name);
+        if (typeof value !== 'string' || !isAmbiguousDate(value)) continue;
+
+        const position = entry.fieldPositions?.get(field.name);
+        const lineNumber = position?.line ?? entry.lineNumber;
+        warnings.push({
+          message: `Ambiguous date '${value}' for field '${field.name}' - declare a format such as "DD/MM/YYYY" or "MM/DD/YYYY"`,
+          fieldName: field.name,
+          schemaName: schema.name,
+          ...(lineNumber !== undefined && { lineNumber }),
+          ...fieldValueSpan(entry, field.name),
+          ...(blockContext?.blockNumber !== undefined && { blockNumber: blockContext.blockNumber }),
+          ...(blockContext?.blockType && { blockType: blockContext.blockType })
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Reports each required field that is absent or empty in a record
+   */
+  private validateRequiredFields(
+    entry: DataEntry,
+    schema: DataSchema,
+    blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data' }
+  ): ParseError[] {
+    const errors: ParseError[] = [];
+    const recordLabel = entry.recordNumber !== undefined ? ` (record ${entry.recordNumber})` : '';
+
+    for (const field of schema.fields) {
+      if (!field.required) continue;
+
+      const value = entry.fields.get(field.name);
+      if (value === null || value === undefined || String(value).trim() === '') {
+        errors.push({
+          type: ErrorType.MISSING_REQUIRED_FIELD,
+          message: `Missing required field '${field.name}'${recordLabel} in schema '${schema.name}'`,
+          fieldName: field.name,
+          schemaName: schema.name,
+          ...(entry.lineNumber !== undefined && { lineNumber: entry.lineNumber }),
+          ...(entry.recordNumber !== undefined && { recordNumber: entry.recordNumber }),
+          ...(blockContext?.blockNumber !== undefined && { blockNumber: blockContext.blockNumber }),
+          ...(blockContext?.blockType && { blockType: blockContext.blockType })
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Reports each value that cannot be read as its field's declared type
+   */
+  private validateTypes(
+    entry: DataEntry,
+    schema: DataSchema,
+    blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data' }
+  ): ParseError[] {
+    const errors: ParseError[] = [];
+
+    for (const field of schema.fields) {
+      const value = entry.fields.get(field.name);
+      if (value === null || value === undefined || this.typeValidator.validateType(value, field.type, field.format)) continue;
+
+      const position = entry.fieldPositions?.get(field.name);
+      const lineNumber = position?.line ?? entry.lineNumber;
+      const dateFormat = field.type === DataType.DATE ? getInputDateFormat(field.format) : undefined;
+      const expected = isDatePattern(dateFormat) ? `${field.type} in format ${dateFormat}` : field.type;
+      errors.push({
+        type: ErrorType.TYPE_MISMATCH,
+        message: `Type mismatch for field '${field.name}': expected ${expected}, got '${value}'`,
+        fieldName: field.name,
+        schemaName: schema.name,
+        value: String(value),
+        expectedType: field.type,
+        ...(lineNumber !== undefined && { lineNumber }),
+        ...fieldValueSpan(entry, field.name),
+        ...(entry.recordNumber !== undefined && { recordNumber: entry.recordNumber }),
+        ...(blockContext?.blockNumber !== undefined && { blockNumber: blockContext.blockNumber }),
+        ...(blockContext?.blockType && { blockType: blockContext.blockType })
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Reports each value that breaks its field's `valid: {...}` rules
+   */
+  private validateRules(
+    entry: DataEntry,
+    schema: DataSchema,
+    blockContext?: { blockNumber?: number; blockType?: 'datadef' | 'data' }
+  ): ParseError[] {
+    const errors: ParseError[] = [];
+
+    for (const field of schema.fields) {
+      const value = entry.fields.get(field.name);
+      if (!field.validation || value === null || value === undefined || String(value).trim() === '') continue;
+
+      // Values of the wrong type are already reported as TYPE_MISMATCH
+      if (!this.typeValidator.validateType(value, field.type, field.format)) continue;
+
+      const position = entry.fieldPositions?.get(field.name);
+      const lineNumber = position?.line ?? entry.lineNumber;
+      for (const failure of this.checkRules(String(value).trim(), field)) {
+        errors.push({
+          type: ErrorType.VALIDATION_FAILED,
+          message: `Value '${value}' for field '${field.name}' ${failure}`,
+          fieldName: field.name,
+          schemaName: schema.name,
+          ...(lineNumber !== undefined && { lineNumber }),
+          ...fieldValueSpan(entry, field.name),
+          ...(entry.recordNumber !== undefined && { recordNumber: entry.recordNumber }),
+          ...(blockContext?.blockNumber !== undefined && { blockNumber: blockContext.blockNumber }),
+          ...(blockContext?.blockType && { blockType: blockContext.blockType })
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Evaluate a value against its field's rules, returning a description of each failure
+   */
+  private checkRules(value: string, field: FieldDefinition): string[] {
+    const rules = field.validation || {};
+    const failures: string[] = [];
+
+    // min/max compare lengths for text and values for numbers, dates and times
+    const format = getInputDateFormat(field.format);
+    const comparable = this.toComparable(value, field.type, format);
+    if (comparable !== null) {
+      const min = this.toBound(rules.min, field.type, format);
+      const max = this.toBound(rules.max, field.type, format);
+      const subject = field.type === DataType.TEXT ? 'length' : 'value';
+
+      if (min !== null && comparable < min) {
+        failures.push(`is below the minimum ${subject} ${rules.min}`);
+      }
+      if (max !== null && comparable > max) {
+        failures.push(`is above the maximum ${subject} ${rules.max}`);
+      }
+    }
+
+    if (rules.minLength !== undefined && value.length < rules.minLength) {
+      failures.push(`is shorter than ${rules.minLength} characters`);
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      failures.push(`is longer than ${rules.maxLength} characters`);
+    }
+
+    if (rules.pattern !== undefined && !new RegExp(rules.pattern).test(value)) {
+      failures.push(`does not match pattern ${rules.pattern}`);
+    }
+
+    if (rules.oneOf !== undefined && !rules.oneOf.includes(value)) {
+      failures.push(`is not one of: ${rules.oneOf.join(', ')}`);
+    }
+
+    return failures;
+  }
+
+  /**
+   * Convert a min/max rule to a number on the same scale as toComparable
+   */
+  private toBound(bound: number | string | undefined, type: DataType, format?: string): number | null {
+    if (bound === undefined) return null;
+    if (type === DataType.TEXT || type === DataType.NUMBER) {
+      const numeric = typeof bound === 'number' ? bound : Number(bound.trim());
+      return bound === '' || isNaN(numeric) ? null : numeric;
+    }
+    return this.toComparable(String(bound), type, format);
+  }
+
+  /**
+   * Convert a value to a number for range comparison, or null when it cannot be compared
+   */
+  private toComparable(value: string, type: DataType, format?: string): number | null {
+    switch (type) {
+      case DataType.TEXT:
+        return value.length;
+      case DataType.NUMBER: {
+        const parsed = parseFloat(value.replace(/[$,\s%]/g, ''));
+        return isNaN(parsed) ? null : parsed;
+      }
+      case DataType.DATE: {
+        // Values and rule bounds are read alike: in the field's pattern or in ISO form
+        const parts = readDate(value, format);
+        return parts ? toDateTime(parts) : null;
+      }
+      case DataType.TIME: {
+        const match = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+        return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] || 0) : null;
+      }
+      default:
+        return null;
+    }
+  }
+}
@@ -35,7 +35,7 @@ export class DataValidator {
       case DataType.NUMBER:
         return this.typeValidator.validateType(value, type); // Use type validator for numbers
       case DataType.DATE:
-        return this.typeValidator.validateType(value, type); // Use type validator for dates
+        return this.typeValidator.validateType(value, type, format); // Dates follow the declared pattern
       case DataType.TIME:
         return this.typeValidator.validateType(value, type); // Use type validator for times
       case DataType.BOOLEAN:
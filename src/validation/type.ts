@@ -1,4 +1,5 @@
-import { DataType } from '../types.js';
+import { DataType, DualFormat } from '../types.js';
+import { getInputDateFormat, isDatePattern, parseDateWithFormat } from '../date-format.js';
 
 /**
  * Dedicated type validation module for specific data type checking
@@ -9,8 +10,9 @@ export class TypeValidator {
 
   /**
    * Validates if a value matches the expected data type
+   * Dates are checked strictly against the field's format when it is a date pattern
    */
-  validateType(value: unknown, type: DataType): boolean {
+  validateType(value: unknown, type: DataType, format?: string | DualFormat): boolean {
     if (value === null || value === undefined) {
       return true;
     }
@@ -23,7 +25,7 @@ export class TypeValidator {
       case DataType.NUMBER:
         return this.validateNumberType(stringValue);
       case DataType.DATE:
-        return this.validateDateType(stringValue);
+        return this.validateDateType(stringValue, format);
       case DataType.TIME:
         return this.validateTimeType(stringValue);
       case DataType.BOOLEAN:
@@ -60,18 +62,23 @@ export class TypeValidator {
   }
 
   /**
-   * Time type validation (HH:MM or HH:MM:SS format)
+   * Time type validation (HH:MM or HH:MM:SS format, 24-hour or 12-hour with AM/PM)
    */
   private validateTimeType(value: string): boolean {
-    const timePattern = /^([01]?\d|2[0-3]):([0-5]?\d)(?::([0-5]?\d))?$/;
+    const timePattern = /^(?:([01]?\d|2[0-3]):([0-5]?\d)(?::([0-5]?\d))?|(0?[1-9]|1[0-2]):([0-5]?\d)(?::([0-5]?\d))?\s*(?:AM|PM|am|pm))$/;
     return timePattern.test(value.trim());
   }
 
   /**
    * Date type validation - comprehensive date format support
    */
-  private validateDateType(value: string): boolean {
+  private validateDateType(value: string, format?: string | DualFormat): boolean {
     const trimmed = value.trim();
+
+    const inputFormat = getInputDateFormat(format);
+    if (isDatePattern(inputFormat)) {
+      return parseDateWithFormat(trimmed, inputFormat) !== null;
+    }
     
     // Support many common date formats
     const datePatterns = [
@@ -0,0 +1,127 @@
+import { MarkdownDataExtensionParser } from './parser.js';
+import { FileSystemSchemaResolver } from './resolvers/filesystem.js';
+import {
+  DataEntry,
+  DataSchema,
+  ErrorType,
+  ParseError,
+  ParseOptions,
+  ParseResult,
+  ParseWarning,
+  SchemaResolver,
+  WorkspaceResult
+} from './types.js';
+import { expandFileArguments } from './glob.js';
+
+/**
+ * Parses a set of markdown files as one project
+ * Schemas defined in any file go into a shared registry, so a data block may use
+ * a schema kept in another file; a schema defined differently in two files is reported
+ * Files are read through the schemaResolver option, from disk unless another resolver is given
+ */
+export class Workspace {
+  private options: ParseOptions;
+  // Reads the files themselves, as parseFile does; external references still resolve against basePath
+  private files: SchemaResolver;
+
+  constructor(options: ParseOptions = {}) {
+    this.options = options;
+    this.files = options.schemaResolver || new FileSystemSchemaResolver();
+  }
+
+  /**
+   * Parse files, directories (searched for *.md) or glob patterns such as "docs/**\/*.md" from disk (Node only)
+   */
+  async parse(patterns: string[], cwd: string = process.cwd()): Promise<WorkspaceResult> {
+    return this.parseFiles(await expandFileArguments(patterns, cwd));
+  }
+
+  /**
+   * Parse a list of files
+   */
+  async parseFiles(paths: string[]): Promise<WorkspaceResult> {
+    const files = new Map<string, ParseResult>();
+    for (const path of paths) {
+      files.set(this.files.resolvePath(path), await this.parseFile(path));
+    }
+
+    const schemas = new Map<string, DataSchema>();
+    for (const result of files.values()) {
+      for (const [name, schema] of result.schemas) {
+        if (!schemas.has(name)) schemas.set(name, schema);
+      }
+    }
+
+    // Only files with data blocks for schemas they do not define need the registry
+    for (const [path, result] of files) {
+      const usesRegistry = result.errors.some(error =>
+        error.type === ErrorType.SCHEMA_NOT_FOUND && error.schemaName !== undefined && schemas.has(error.schemaName));
+      if (usesRegistry) {
+        files.set(path, await this.parseFile(path, schemas));
+      }
+    }
+
+    for (const [path, result] of files) {
+      result.errors.push(...this.findConflicts(path, result, schemas));
+    }
+
+    return this.aggregate(files, schemas);
+  }
+
+  private async parseFile(path: string, schemaRegistry?: Map<string, DataSchema>): Promise<ParseResult> {
+    // A fresh parser per file keeps one document's schemas out of the next document
+    return new MarkdownDataExtensionParser().parseFile(path, {
+      ...this.options,
+      ...(schemaRegistry && { schemaRegistry })
+    });
+  }
+
+  /**
+   * Schemas of a file that share a name with a registered schema from another file but not its fields or indexes
+   */
+  private findConflicts(path: string, result: ParseResult, schemas: Map<string, DataSchema>): ParseError[] {
+    const errors: ParseError[] = [];
+
+    for (const [name, schema] of result.schemas) {
+      const registered = schemas.get(name);
+      if (!registered || registered.sourcePath === schema.sourcePath) continue;
+      if (schemaSignature(registered) === schemaSignature(schema)) continue;
+
+      const where = `${registered.sourcePath ?? 'another file'}${registered.lineNumber !== undefined ? `:${registered.lineNumber}` : ''}`;
+      errors.push({
+        type: ErrorType.SCHEMA_CONFLICT,
+        message: `Schema '${name}' is defined differently in ${where}`,
+        schemaName: name,
+        sourceFile: path,
+        blockType: 'datadef',
+        ...(schema.lineNumber !== undefined && { lineNumber: schema.lineNumber }),
+        ...(schema.blockNumber !== undefined && { blockNumber: schema.blockNumber })
+      });
+    }
+
+    return errors;
+  }
+
+  private aggregate(files: Map<string, ParseResult>, schemas: Map<string, DataSchema>): WorkspaceResult {
+    const data = new Map<string, DataEntry[]>();
+    const errors: ParseError[] = [];
+    const warnings: ParseWarning[] = [];
+
+    for (const [path, result] of files) {
+      for (const [name, entries] of result.data) {
+        data.set(name, [...(data.get(name) || []), ...entries]);
+      }
+      errors.push(...result.errors.map(error => error.sourceFile ? error : { ...error, sourceFile: path }));
+      warnings.push(...result.warnings.map(warning => warning.sourceFile ? warning : { ...warning, sourceFile: path }));
+    }
+
+    return { files, schemas, data, errors, warnings };
+  }
+}
+
+/**
+ * What two definitions of a schema must share to count as the same schema
+ */
+function schemaSignature(schema: DataSchema): string {
+  return JSON.stringify({ fields: schema.fields, indexes: schema.indexes });
+}